@@ -0,0 +1,152 @@
+// app/api/agents/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureAgentProfile } from '@/lib/agents/profiles';
+import { getAgentProfileStore } from '@/lib/agents/store';
+import type { AgentProfilePatch } from '@/lib/agents/types';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth/session';
+import { parseEscalationRules } from '@/lib/escalation/rules';
+import { logger } from '@/lib/logger';
+import { parsePrivacySettings } from '@/lib/privacy/settings';
+
+// The profile is always the signed-in user's. Earlier versions took the user from `?user=`,
+// so a request still naming someone else is refused rather than quietly applied to the caller.
+function sessionOwner(request: NextRequest): string | NextResponse {
+  const userId = getSessionUserId(request);
+  if (!userId) {
+    return unauthorizedResponse();
+  }
+  const requested = request.nextUrl.searchParams.get('user');
+  if (requested && requested !== userId) {
+    logger.agents.warn('Rejected request for another user\'s agent', { userId, requested, method: request.method });
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  return userId;
+}
+
+export async function GET(request: NextRequest) {
+  const userId = sessionOwner(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  try {
+    const profile = await getAgentProfileStore().get(userId);
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Agent profile not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ profile });
+  } catch (error) {
+    logger.agents.error('Error fetching agent profile', error as Error, { userId });
+    return NextResponse.json(
+      { error: 'Failed to fetch agent profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create the profile if it doesn't exist yet (idempotent)
+export async function POST(request: NextRequest) {
+  const userId = sessionOwner(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  try {
+    const profile = await ensureAgentProfile(userId);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    logger.agents.error('Error creating agent profile', error as Error, { userId });
+    return NextResponse.json(
+      { error: 'Failed to create agent profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// Update owner settings on the profile
+export async function PATCH(request: NextRequest) {
+  const userId = sessionOwner(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json() as Record<string, unknown>;
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const patch: AgentProfilePatch = {};
+  if ('escalation' in body) {
+    const escalation = parseEscalationRules(body.escalation);
+    if (!escalation) {
+      return NextResponse.json(
+        { error: 'Invalid escalation rules' },
+        { status: 400 }
+      );
+    }
+    patch.escalation = escalation;
+  }
+  if ('privacy' in body) {
+    const privacy = parsePrivacySettings(body.privacy);
+    if (!privacy) {
+      return NextResponse.json(
+        { error: 'Invalid privacy settings' },
+        { status: 400 }
+      );
+    }
+    patch.privacy = privacy;
+  }
+
+  try {
+    const profile = await getAgentProfileStore().update(userId, patch);
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Agent profile not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ profile });
+  } catch (error) {
+    logger.agents.error('Error updating agent profile', error as Error, { userId });
+    return NextResponse.json(
+      { error: 'Failed to update agent profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const userId = sessionOwner(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  try {
+    const deleted = await getAgentProfileStore().delete(userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Agent profile not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({
+      success: true,
+      message: 'Agent profile deleted successfully',
+    });
+  } catch (error) {
+    logger.agents.error('Error deleting agent profile', error as Error, { userId });
+    return NextResponse.json(
+      { error: 'Failed to delete agent profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/auth/setup/route.ts
+// Exchanges the signed link from /doppel setup for a session cookie, then opens the setup page
+
+import { NextRequest, NextResponse } from 'next/server';
+import { setSessionCookie, verifySetupToken } from '@/lib/auth/session';
+import { logger } from '@/lib/logger';
+
+export async function GET(request: NextRequest) {
+  const baseUrl = process.env.NEXT_PUBLIC_URL || request.nextUrl.origin;
+  const token = request.nextUrl.searchParams.get('token');
+  const userId = token ? verifySetupToken(token) : null;
+
+  if (!userId) {
+    logger.agents.warn('Rejected invalid or expired setup link');
+    return NextResponse.redirect(`${baseUrl}/setup?error=link_expired`);
+  }
+
+  // Redirect so the token doesn't stay in the address bar or browser history
+  const response = NextResponse.redirect(`${baseUrl}/setup`);
+  setSessionCookie(response, userId);
+  logger.agents.info('Setup session started', { userId });
+  return response;
+}
@@ -1,87 +1,67 @@
 // app/api/composio/callback/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Composio } from '@composio/core';
+import { clearOAuthRequestCookie, getOAuthRequestId, verifyOAuthState, type OAuthState } from '@/lib/auth/oauth-state';
+import { getSessionUserId } from '@/lib/auth/session';
+import { recordConnection } from '@/lib/composio/connection-state';
+import { getAuthConfigId, getConnectionService, type Connection } from '@/lib/composio/connections';
+import { getIntegration } from '@/lib/composio/integrations';
+import { logger } from '@/lib/logger';
 
-const composio = new Composio({
-  apiKey: process.env.COMPOSIO_API_KEY!,
-});
+// Allow for clock drift between us and Composio when comparing createdAt to the state's issue time
+const CLOCK_SKEW_MS = 60 * 1000;
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const userId = searchParams.get('user');
-  const tool = searchParams.get('tool');
-  const connectionRequestId = searchParams.get('connectionRequestId') || searchParams.get('id');
-
-  if (!userId || !tool) {
-    return NextResponse.redirect(
-      `${process.env.NEXT_PUBLIC_URL || request.nextUrl.origin}/setup?user=${userId || ''}&error=missing_params`
-    );
-  }
+interface OAuthResult {
+  success: boolean;
+  // Integration ID from the registry
+  tool: string | null;
+  error?: string;
+}
 
-  try {
-    let connectionSuccess = false;
-    
-    // If we have a connection request ID, wait for the connection
-    if (connectionRequestId) {
-      try {
-        const connectedAccount = await composio.connectedAccounts.waitForConnection(
-          connectionRequestId,
-          60 // 60 second timeout
-        );
-        
-        if (connectedAccount) {
-          connectionSuccess = true;
-        }
-      } catch (waitError) {
-        console.error('Error waiting for connection:', waitError);
-        // Fall through to try listing connections
-      }
-    }
+// JSON that is safe to inline in a <script>: nothing in it can close the tag
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
 
-    // Fallback: List connections for this user and check if a new one was created
-    if (!connectionSuccess) {
-      try {
-        const connections = await composio.connectedAccounts.list({
-          userIds: [userId],
-        });
-        
-        // If we have connections, assume the latest one is the new connection
-        if (connections && Array.isArray(connections) && connections.length > 0) {
-          connectionSuccess = true;
-        }
-      } catch (listError) {
-        console.error('Error listing connections:', listError);
-      }
-    }
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
 
-    // Return HTML page that closes popup and notifies parent window
-    const success = connectionSuccess;
-    const html = `
+// HTML page that notifies the setup page (our own origin only) and closes the popup
+function resultPage(result: OAuthResult, origin: string): NextResponse {
+  const name = (result.tool && getIntegration(result.tool)?.name) || 'Tool';
+  const heading = result.success
+    ? `✅ ${name} Connected!`
+    : result.error ? '❌ Connection Error' : 'Connection Complete';
+  const html = `
       <!DOCTYPE html>
       <html>
         <head>
-          <title>Connection ${success ? 'Success' : 'Complete'}</title>
+          <title>${escapeHtml(result.success ? 'Connection Success' : 'Connection Complete')}</title>
         </head>
         <body>
           <script>
             // Send message to parent window
             if (window.opener) {
-              window.opener.postMessage({
-                type: 'composio-oauth-complete',
-                success: ${success},
-                tool: '${tool}',
-                userId: '${userId}'
-              }, '*');
+              window.opener.postMessage(${scriptJson({ type: 'composio-oauth-complete', ...result })}, ${scriptJson(origin)});
             }
             // Close popup after a short delay
             setTimeout(() => {
               window.close();
-            }, 1000);
+            }, ${result.success ? 1000 : 2000});
           </script>
           <div style="display: flex; align-items: center; justify-content: center; height: 100vh; font-family: system-ui;">
             <div style="text-align: center;">
-              <h1>${success ? '✅ Connection Successful!' : 'Connection Complete'}</h1>
+              <h1>${escapeHtml(heading)}</h1>
               <p>This window will close automatically...</p>
             </div>
           </div>
@@ -89,48 +69,84 @@ export async function GET(request: NextRequest) {
       </html>
     `;
 
-    return new NextResponse(html, {
-      headers: {
-        'Content-Type': 'text/html',
-      },
-    });
-  } catch (error) {
-    console.error('Error in Composio callback:', error);
-    const html = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Connection Error</title>
-        </head>
-        <body>
-          <script>
-            if (window.opener) {
-              window.opener.postMessage({
-                type: 'composio-oauth-complete',
-                success: false,
-                tool: '${tool}',
-                userId: '${userId}',
-                error: 'callback_error'
-              }, '*');
-            }
-            setTimeout(() => {
-              window.close();
-            }, 2000);
-          </script>
-          <div style="display: flex; align-items: center; justify-content: center; height: 100vh; font-family: system-ui;">
-            <div style="text-align: center;">
-              <h1>❌ Connection Error</h1>
-              <p>This window will close automatically...</p>
-            </div>
-          </div>
-        </body>
-      </html>
-    `;
-    return new NextResponse(html, {
-      headers: {
-        'Content-Type': 'text/html',
-      },
-    });
+  const response = new NextResponse(html, {
+    headers: {
+      'Content-Type': 'text/html',
+    },
+  });
+  clearOAuthRequestCookie(response);
+  return response;
+}
+
+// The user's ACTIVE connection that this flow created, under the integration's auth config
+async function findNewConnection(request: NextRequest, state: OAuthState, authConfigId: string): Promise<Connection | null> {
+  const service = getConnectionService();
+  const matchesFlow = (connection: Connection) =>
+    connection.status === 'ACTIVE' && connection.authConfigId === authConfigId;
+
+  // Preferred: wait on the exact request connect started
+  const requestId = getOAuthRequestId(request);
+  if (requestId) {
+    try {
+      const connection = await service.waitForConnection(
+        requestId,
+        60 // 60 second timeout
+      );
+      if (connection && matchesFlow(connection)) {
+        // Only count it if the account was created under this user
+        const owned = await service.listConnections(state.userId);
+        if (owned.some((item) => item.id === connection.id)) return connection;
+      }
+    } catch (waitError) {
+      logger.composio.error('Error waiting for connection', waitError as Error, { userId: state.userId, requestId });
+      // Fall through to try listing connections
+    }
   }
+
+  // Fallback: an account for this auth config created since the flow started. Without a creation
+  // time it could be one the user already had, so it can't be bound to this attempt.
+  const connections = await service.listConnections(state.userId);
+  return connections.find((connection) => {
+    const createdAt = connection.createdAt ? Date.parse(connection.createdAt) : NaN;
+    return matchesFlow(connection) && !Number.isNaN(createdAt) && createdAt >= state.issuedAt - CLOCK_SKEW_MS;
+  }) ?? null;
 }
 
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const baseUrl = process.env.NEXT_PUBLIC_URL || request.nextUrl.origin;
+  const origin = new URL(baseUrl).origin;
+  const userId = getSessionUserId(request);
+
+  if (!userId) {
+    return NextResponse.redirect(`${baseUrl}/setup?error=link_expired`);
+  }
+
+  // The state must be one we signed for this user, so nobody can finish a flow on their behalf
+  const state = verifyOAuthState(searchParams.get('state') ?? '');
+  if (!state || state.userId !== userId) {
+    logger.composio.warn('Rejected Composio callback with invalid state', { userId });
+    return resultPage({ success: false, tool: null, error: 'invalid_state' }, origin);
+  }
+
+  const integration = getIntegration(state.integrationId);
+  const authConfigId = integration ? getAuthConfigId(integration) : '';
+  if (!authConfigId) {
+    return resultPage({ success: false, tool: state.integrationId, error: 'unknown_tool' }, origin);
+  }
+
+  // Composio appends status=failed when the user cancels or the provider refuses
+  if (searchParams.get('status') === 'failed') {
+    return resultPage({ success: false, tool: state.integrationId, error: 'oauth_failed' }, origin);
+  }
+
+  try {
+    const connection = await findNewConnection(request, state, authConfigId);
+    // Store it now so the setup page sees it without waiting for the webhook
+    if (connection) await recordConnection(userId, connection);
+    return resultPage({ success: connection !== null, tool: state.integrationId }, origin);
+  } catch (error) {
+    logger.composio.error('Error in Composio callback', error as Error, { userId: state.userId, integrationId: state.integrationId });
+    return resultPage({ success: false, tool: state.integrationId, error: 'callback_error' }, origin);
+  }
+}
@@ -1,40 +1,33 @@
 // app/api/composio/connect/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Composio } from '@composio/core';
-
-type ConnectionRequestResponse = {
-    id: string;
-    redirectUrl?: string | null;
-  };
-
-const composio = new Composio({
-  apiKey: process.env.COMPOSIO_API_KEY!,
-});
-
-// Map tool names to their auth config IDs from environment variables
-// Note: Make sure these env vars are set in your .env file
-const TOOL_AUTH_CONFIG_IDS: Record<string, string> = {
-  'Google Calendar': process.env.NEXT_PUBLIC_GOOGLECALENDAR_AUTH_CONFIG_ID || process.env.GOOGLECALENDAR_AUTH_CONFIG_ID || '',
-  'Slack': process.env.NEXT_PUBLIC_SLACK_AUTH_CONFIG_ID || process.env.SLACK_AUTH_CONFIG_ID || '',
-  'Linear': process.env.NEXT_PUBLIC_LINEAR_AUTH_CONFIG_ID || process.env.LINEAR_AUTH_CONFIG_ID || '',
-  'GitHub': process.env.NEXT_PUBLIC_GITHUB_AUTH_CONFIG_ID || process.env.GITHUB_AUTH_CONFIG_ID || '',
-};
+import { createOAuthState, oauthCallbackUrl, setOAuthRequestCookie } from '@/lib/auth/oauth-state';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth/session';
+import { ConnectionExistsError, findActiveConnection, getAuthConfigId, getConnectionService } from '@/lib/composio/connections';
+import { getIntegration } from '@/lib/composio/integrations';
+import { logger } from '@/lib/logger';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const tool = searchParams.get('tool');
-  const userId = searchParams.get('user');
+  // Replacing an expired or failed connection: start a new account alongside the broken one
+  const reconnect = searchParams.get('reconnect') === '1';
+  const userId = getSessionUserId(request);
+
+  if (!userId) {
+    return unauthorizedResponse();
+  }
 
-  if (!tool || !userId) {
+  if (!tool) {
     return NextResponse.json(
-      { error: 'Missing tool or user parameter' },
+      { error: 'Missing tool parameter' },
       { status: 400 }
     );
   }
 
-  const authConfigId = TOOL_AUTH_CONFIG_IDS[tool];
-  if (!authConfigId) {
+  // `tool` is an integration ID from the registry, e.g. "googlecalendar"
+  const integration = getIntegration(tool);
+  if (!integration || !getAuthConfigId(integration)) {
     return NextResponse.json(
       { error: `No auth config found for tool: ${tool}` },
       { status: 400 }
@@ -42,83 +35,13 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Initiate a new OAuth connection with allowMultiple: false to prevent duplicates
-    // If a connection already exists, this will throw an error that we can catch
-    let connectionRequest: ConnectionRequestResponse;
-    
-    try {
-      connectionRequest = await composio.connectedAccounts.initiate(
-        userId,
-        authConfigId,
-      ) as ConnectionRequestResponse;
-    } catch (initiateError) {
-      // Check if this is the multiple accounts error
-      const error = initiateError as { code?: string; message?: string };
-      
-      if (error.code === 'TS-SDK::MULTIPLE_CONNECTED_ACCOUNTS' || 
-          (error.message && error.message.includes('Multiple connected accounts'))) {
-        
-        console.log('Multiple connections detected, finding existing connection...');
-        
-        // Get all connections for this user
-        const response = await composio.connectedAccounts.list({
-          userIds: [userId],
-        });
-
-        // Handle different response structures
-        let existingConnections: unknown[] = [];
-        if (Array.isArray(response)) {
-          existingConnections = response;
-        } else if (response && typeof response === 'object' && 'items' in response) {
-          existingConnections = (response as { items: unknown[] }).items || [];
-        }
-
-        // Find the ACTIVE connection for this auth config
-        for (const conn of existingConnections) {
-          if (!conn || typeof conn !== 'object') continue;
-          
-          const connection = conn as Record<string, unknown>;
-          const connectionId = (connection.id as string) || (connection.connected_account_id as string);
-          const status = connection.status as string | undefined;
-          
-          if (!connectionId || status !== 'ACTIVE') continue;
-
-          // Get full connection details to check auth config
-          try {
-            const fullConnection = await composio.connectedAccounts.get(connectionId);
-            if (fullConnection && typeof fullConnection === 'object') {
-              const fullConn = fullConnection as Record<string, unknown>;
-              const connAuthConfigId = 
-                (fullConn.authConfigId as string) ||
-                (fullConn.auth_config_id as string) ||
-                ((fullConn.auth_config as { id?: string })?.id) ||
-                ((fullConn.auth_config as Record<string, unknown>)?.id as string);
-              
-              if (connAuthConfigId === authConfigId) {
-                // Found the existing connection
-                return NextResponse.json({
-                  redirectUrl: null,
-                  connectionRequestId: connectionId,
-                  alreadyConnected: true,
-                  message: 'Connection already exists',
-                });
-              }
-            }
-          } catch {
-            continue;
-          }
-        }
-        
-        // If we get here, we couldn't find the connection, return error
-        return NextResponse.json(
-          { error: 'Multiple connections exist but could not locate the active one. Please contact support.' },
-          { status: 500 }
-        );
-      }
-      
-      // If it's a different error, throw it
-      throw initiateError;
-    }
+    // The callback only accepts a flow carrying this user's signed state for this integration
+    const state = createOAuthState(userId, integration.id);
+    const callbackUrl = oauthCallbackUrl(process.env.NEXT_PUBLIC_URL || request.nextUrl.origin, state);
+    const connectionRequest = await getConnectionService().initiate(userId, integration.id, {
+      callbackUrl,
+      allowMultiple: reconnect,
+    });
 
     // Return JSON with redirectUrl and connectionRequestId for popup flow
     if (!connectionRequest.redirectUrl) {
@@ -128,16 +51,34 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       redirectUrl: connectionRequest.redirectUrl,
       connectionRequestId: connectionRequest.id,
     });
+    setOAuthRequestCookie(response, connectionRequest.id);
+    return response;
   } catch (error) {
-    console.error('Error initiating Composio connection:', error);
+    // Already connected - point the page at the existing connection instead
+    if (error instanceof ConnectionExistsError) {
+      const existing = await findActiveConnection(userId, integration.id).catch(() => null);
+      if (existing) {
+        return NextResponse.json({
+          redirectUrl: null,
+          connectionRequestId: existing.id,
+          alreadyConnected: true,
+          message: 'Connection already exists',
+        });
+      }
+      return NextResponse.json(
+        { error: 'Multiple connections exist but could not locate the active one. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    logger.composio.error('Error initiating Composio connection', error as Error, { userId, integrationId: integration.id });
     return NextResponse.json(
       { error: 'Failed to initiate connection' },
       { status: 500 }
     );
   }
 }
-
@@ -1,13 +1,17 @@
 // app/api/composio/disconnect/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Composio } from '@composio/core';
-
-const composio = new Composio({
-  apiKey: process.env.COMPOSIO_API_KEY!,
-});
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth/session';
+import { forgetConnection } from '@/lib/composio/connection-state';
+import { getConnectionService, ownsConnection } from '@/lib/composio/connections';
+import { logger } from '@/lib/logger';
 
 export async function DELETE(request: NextRequest) {
+  const userId = getSessionUserId(request);
+  if (!userId) {
+    return unauthorizedResponse();
+  }
+
   const searchParams = request.nextUrl.searchParams;
   const connectionId = searchParams.get('connectionId');
 
@@ -19,15 +23,24 @@ export async function DELETE(request: NextRequest) {
   }
 
   try {
+    if (!(await ownsConnection(userId, connectionId))) {
+      logger.composio.warn('Rejected disconnect of a connection the user does not own', { userId, connectionId });
+      return NextResponse.json(
+        { error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
     // Delete the connection
-    await composio.connectedAccounts.delete(connectionId);
+    await getConnectionService().deleteConnection(connectionId);
+    await forgetConnection(userId, connectionId);
 
     return NextResponse.json({
       success: true,
       message: 'Connection deleted successfully',
     });
   } catch (error) {
-    console.error('Error deleting Composio connection:', error);
+    logger.composio.error('Error deleting Composio connection', error as Error, { userId, connectionId });
     return NextResponse.json(
       { error: 'Failed to delete connection' },
       { status: 500 }
@@ -0,0 +1,36 @@
+// app/api/composio/test/route.ts
+// Reads once through the user's connections to confirm they can actually get data
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth/session';
+import { testConnections } from '@/lib/composio/connection-state';
+import { getIntegration } from '@/lib/composio/integrations';
+import { logger } from '@/lib/logger';
+
+export async function POST(request: NextRequest) {
+  const userId = getSessionUserId(request);
+  if (!userId) {
+    return unauthorizedResponse();
+  }
+
+  // Optional: test one tool instead of every stored connection
+  const tool = request.nextUrl.searchParams.get('tool');
+  const integration = tool ? getIntegration(tool) : undefined;
+  if (tool && !integration) {
+    return NextResponse.json(
+      { error: `Unknown tool: ${tool}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await testConnections(userId, integration ? [integration.id] : undefined);
+    return NextResponse.json({ results });
+  } catch (error) {
+    logger.composio.error('Error testing connections', error as Error, { userId, integrationId: integration?.id });
+    return NextResponse.json(
+      { error: 'Failed to test connections' },
+      { status: 500 }
+    );
+  }
+}
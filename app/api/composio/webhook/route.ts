@@ -0,0 +1,43 @@
+// app/api/composio/webhook/route.ts
+// Composio connection lifecycle events: created, expired and revoked accounts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleConnectionEvent } from '@/lib/composio/connection-state';
+import { parseConnectionEvent, verifyComposioWebhook } from '@/lib/composio/webhook';
+import { logger } from '@/lib/logger';
+
+export async function POST(request: NextRequest) {
+  // The signature is computed over the exact bytes Composio sent
+  const rawBody = await request.text();
+  const verification = verifyComposioWebhook(request.headers, rawBody);
+  if (!verification.ok) {
+    logger.composio.warn('Rejected webhook with invalid signature', {
+      reason: verification.reason,
+      webhookId: request.headers.get('webhook-id'),
+    });
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(rawBody) as Record<string, unknown>;
+  } catch (error) {
+    logger.composio.error('Failed to parse webhook body', error as Error);
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const event = parseConnectionEvent(body);
+  if (!event) {
+    logger.composio.debug('Ignoring webhook event', { type: body.type });
+    return NextResponse.json({ ok: true });
+  }
+
+  try {
+    await handleConnectionEvent(event);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    // A non-2xx response makes Composio redeliver the event
+    logger.composio.error('Error handling connection event', error as Error, { type: event.type, userId: event.userId });
+    return NextResponse.json({ error: 'Failed to handle event' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+// app/api/cron/digest/route.ts
+// Daily job (see vercel.json) that DMs each owner their agent's answers
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sendDailyDigests } from '@/lib/history/digest';
+import { logger } from '@/lib/logger';
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  // Vercel Cron sends the project's CRON_SECRET as a bearer token
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    logger.history.warn('Rejected unauthorized digest request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await sendDailyDigests();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    logger.history.error('Error sending daily digests', error as Error);
+    return NextResponse.json(
+      { error: 'Failed to send digests' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/cron/index/route.ts
+// Daily job (see vercel.json) that queues a refresh of each owner's agent index, adding their latest items
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { drainQueue } from '@/lib/jobs/worker';
+import { queueIndexRefreshes } from '@/lib/retrieval/ingest';
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    logger.retrieval.warn('Rejected unauthorized index refresh request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { queued } = await queueIndexRefreshes();
+    // Whatever doesn't fit in this invocation is drained by the next Slack request or jobs cron
+    const { processed } = await drainQueue();
+    return NextResponse.json({ ok: true, queued, processed });
+  } catch (error) {
+    logger.retrieval.error('Error refreshing indexes', error as Error);
+    return NextResponse.json(
+      { error: 'Failed to refresh indexes' },
+      { status: 500 }
+    );
+  }
+}
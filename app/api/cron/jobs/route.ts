@@ -0,0 +1,31 @@
+// app/api/cron/jobs/route.ts
+// Safety net for the job queue: picks up retries and jobs whose worker died mid-run when no Slack
+// request comes in to drain them. vercel.json runs it daily, the most a Hobby plan allows; on Pro,
+// "* * * * *" retries within a minute.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/jobs/queue';
+import { drainQueue } from '@/lib/jobs/worker';
+import { logger } from '@/lib/logger';
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    logger.jobs.warn('Rejected unauthorized job drain request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { processed } = await drainQueue();
+    const deadLetters = (await getJobQueue().listDeadLetters()).length;
+    return NextResponse.json({ ok: true, processed, deadLetters });
+  } catch (error) {
+    logger.jobs.error('Error draining job queue', error as Error);
+    return NextResponse.json(
+      { error: 'Failed to drain job queue' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// app/api/history/route.ts
+// Lets an owner list and filter what their agent has answered
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth/session';
+import { getAnswerHistoryStore } from '@/lib/history/store';
+import { logger } from '@/lib/logger';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function parseDate(value: string | null): string | undefined | null {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const userId = getSessionUserId(request);
+  if (!userId) {
+    return unauthorizedResponse();
+  }
+
+  const since = parseDate(searchParams.get('since'));
+  const until = parseDate(searchParams.get('until'));
+  if (since === null || until === null) {
+    return NextResponse.json(
+      { error: 'since and until must be valid dates' },
+      { status: 400 }
+    );
+  }
+
+  const limit = Math.min(Number(searchParams.get('limit')) || DEFAULT_LIMIT, MAX_LIMIT);
+
+  try {
+    const answers = await getAnswerHistoryStore().list(userId, {
+      since,
+      until,
+      askerId: searchParams.get('asker') || undefined,
+      channel: searchParams.get('channel') || undefined,
+      query: searchParams.get('q') || undefined,
+      limit,
+    });
+    return NextResponse.json({ answers });
+  } catch (error) {
+    logger.history.error('Error listing answer history', error as Error, { userId });
+    return NextResponse.json(
+      { error: 'Failed to fetch history' },
+      { status: 500 }
+    );
+  }
+}
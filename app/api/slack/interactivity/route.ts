@@ -0,0 +1,55 @@
+// app/api/slack/interactivity/route.ts
+// Slack interactivity endpoint: buttons, modal submissions and message shortcuts
+
+import { after, NextRequest, NextResponse } from 'next/server';
+import { drainIfDue } from '@/lib/jobs/worker';
+import { logger } from '@/lib/logger';
+import { dispatchInteraction, type InteractionPayload } from '@/lib/slack/interactions';
+import { verifySlackRequest } from '@/lib/slack/verify';
+
+export const maxDuration = 60;
+
+const HANDLED_TYPES = new Set(['block_actions', 'view_submission', 'message_action']);
+
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+  const verification = verifySlackRequest(request.headers, rawBody);
+  if (!verification.ok) {
+    logger.slack.warn('Rejected interactivity request with invalid Slack signature', {
+      reason: verification.reason,
+      timestamp: request.headers.get('x-slack-request-timestamp'),
+      hasSignature: request.headers.has('x-slack-signature')
+    });
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  // Handlers may queue agent replies; run them, and anything a killed worker left behind,
+  // once Slack has its acknowledgement
+  after(() => drainIfDue());
+
+  // Interactivity payloads arrive as a JSON string in the `payload` form field
+  let payload: InteractionPayload;
+  try {
+    payload = JSON.parse(new URLSearchParams(rawBody).get('payload') || '') as InteractionPayload;
+  } catch (error) {
+    logger.slack.error('Failed to parse interactivity payload', error as Error);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  if (!HANDLED_TYPES.has(payload.type)) {
+    logger.slack.debug('Ignoring interactivity payload', { type: payload.type });
+    return new NextResponse(null, { status: 200 });
+  }
+
+  try {
+    const response = await dispatchInteraction(payload);
+    if (response) {
+      return NextResponse.json(response);
+    }
+  } catch (error) {
+    logger.slack.error('Error handling interaction', error as Error, { type: payload.type });
+  }
+
+  // Slack only needs an empty 200 to acknowledge
+  return new NextResponse(null, { status: 200 });
+}
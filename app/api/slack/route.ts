@@ -1,79 +1,60 @@
 // app/api/slack/route.ts
 
-import { NextRequest, NextResponse } from 'next/server';
-import { WebClient } from '@slack/web-api';
-import { getAgentData, getAllAgentIds } from '@/lib/demo-data';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/jobs/queue';
+import { drainIfDue } from '@/lib/jobs/worker';
 import { logger } from '@/lib/logger';
-
-// Lazy load AI SDK to reduce cold start time
-let deepseekModule: typeof import('@ai-sdk/deepseek') | null = null;
-let generateTextModule: typeof import('ai') | null = null;
-
-async function getDeepSeek() {
-  if (!deepseekModule) {
-    deepseekModule = await import('@ai-sdk/deepseek');
-  }
-  return deepseekModule.deepseek;
-}
-
-async function getGenerateText() {
-  if (!generateTextModule) {
-    generateTextModule = await import('ai');
-  }
-  return generateTextModule.generateText;
-}
-
-const slack = new WebClient(process.env.SLACK_BOT_TOKEN);
+import { dispatchCommand, slashCommandPayload } from '@/lib/slack/commands';
+import { eventDedupKeys, getEventDedupStore } from '@/lib/slack/dedup';
+import type { MentionEvent } from '@/lib/slack/mention';
+import { verifySlackRequest } from '@/lib/slack/verify';
 
 // Increase timeout for serverless functions (Vercel default is 10s, max is 60s for Hobby, 300s for Pro)
 export const maxDuration = 60;
 
-// Deduplication: Track processed events to prevent duplicate responses
-const processedEvents = new Set<string>();
-const MAX_CACHE_SIZE = 1000;
-const CACHE_TTL = 60000; // 60 seconds
-
-function getEventKey(event: { channel: string; ts: string; user?: string }): string {
-  return `${event.channel}:${event.ts}:${event.user || 'unknown'}`;
-}
-
-function isEventProcessed(eventKey: string): boolean {
-  return processedEvents.has(eventKey);
-}
-
-function markEventProcessed(eventKey: string): void {
-  // Clean up old entries if cache is too large
-  if (processedEvents.size >= MAX_CACHE_SIZE) {
-    const firstKey = processedEvents.values().next().value;
-    if (firstKey) {
-      processedEvents.delete(firstKey);
-    }
-  }
-  processedEvents.add(eventKey);
-  
-  // Auto-cleanup after TTL (simple approach - in production, use a proper cache with TTL)
-  setTimeout(() => {
-    processedEvents.delete(eventKey);
-  }, CACHE_TTL);
+// Tells Slack not to redeliver: the request was ignored on purpose or will never verify
+function withoutRetry(response: NextResponse): NextResponse {
+  response.headers.set('X-Slack-No-Retry', '1');
+  return response;
 }
 
 export async function POST(request: NextRequest) {
   logger.slack.info('Received POST request');
   let body: Record<string, unknown>;
   
+  // Read the raw body once - the signature is computed over the exact bytes Slack sent
+  const rawBody = await request.text();
+  const verification = verifySlackRequest(request.headers, rawBody);
+  if (!verification.ok) {
+    logger.slack.warn('Rejected request with invalid Slack signature', {
+      reason: verification.reason,
+      timestamp: request.headers.get('x-slack-request-timestamp'),
+      hasSignature: request.headers.has('x-slack-signature')
+    });
+    return withoutRetry(NextResponse.json({ error: 'Invalid signature' }, { status: 401 }));
+  }
+  
+  // Once Slack has its acknowledgement, run what this request queues and anything a killed
+  // worker left behind
+  after(() => drainIfDue());
+  
   // Check content type - Slack sends slash commands as form data, events as JSON
   const contentType = request.headers.get('content-type') || '';
   logger.slack.debug('Request content type', { contentType });
   
   if (contentType.includes('application/x-www-form-urlencoded')) {
     // Parse form data for slash commands
-    const formData = await request.formData();
-    body = Object.fromEntries(formData.entries());
-    logger.slack.info('Parsed form data', { body });
+    body = Object.fromEntries(new URLSearchParams(rawBody).entries());
+    // Not the text or response_url: a private ask's question stays private, and the URL can post as us
+    logger.slack.info('Parsed form data', {
+      command: body.command,
+      userId: body.user_id,
+      subcommand: typeof body.text === 'string' ? body.text.trim().split(/\s+/)[0] : undefined
+    });
   } else {
     // Parse JSON for events and URL verification
     try {
-      body = await request.json() as Record<string, unknown>;
+      body = JSON.parse(rawBody) as Record<string, unknown>;
       logger.slack.debug('Parsed JSON body', { body });
     } catch (error) {
       logger.slack.error('Failed to parse request body', error as Error);
@@ -87,16 +68,19 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ challenge: body.challenge });
   }
   
-  // Handle slash command
-  if (body.command === '/setup-agent') {
+  // Handle slash commands - the response body is shown to the user as an ephemeral message
+  if (typeof body.command === 'string') {
     logger.slack.info('Slash command detected', { command: body.command });
-    // Process the command (sends ephemeral message to user)
-    await handleSetupCommand({
-      user_id: String(body.user_id || ''),
-      channel_id: String(body.channel_id || '')
-    });
-    // Return HTTP response to Slack (required - not visible to user)
-    // The user only sees the ephemeral message from handleSetupCommand
+    try {
+      const response = await dispatchCommand(slashCommandPayload(body));
+      if (response) {
+        return NextResponse.json(response);
+      }
+      logger.slack.warn('Unknown slash command', { command: body.command });
+    } catch (error) {
+      logger.slack.error('Error handling slash command', error as Error, { command: body.command });
+      return NextResponse.json({ response_type: 'ephemeral', text: 'Sorry, something went wrong. Please try again.' });
+    }
     return NextResponse.json({ ok: true });
   }
   
@@ -111,7 +95,7 @@ export async function POST(request: NextRequest) {
         subtype: event.subtype,
         text: event.text 
       });
-      return NextResponse.json({ ok: true });
+      return withoutRetry(NextResponse.json({ ok: true }));
     }
     
     // Get bot user ID from authorizations (if available)
@@ -128,30 +112,61 @@ export async function POST(request: NextRequest) {
       botUserId &&
       event.text.includes(`<@${botUserId}>`);
     
-    if (isAppMention || isMessageWithMention) {
-      const mentionEvent = event as unknown as { text: string; channel: string; ts: string; user?: string };
-      const eventKey = getEventKey(mentionEvent);
+    // DMs to the bot are questions even without a mention. Edits, deletions and other subtypes are not.
+    const isDirectMessage = event.type === 'message' &&
+      event.channel_type === 'im' &&
+      !event.subtype &&
+      typeof event.text === 'string';
+    
+    if (isAppMention || isMessageWithMention || isDirectMessage) {
+      const mentionEvent = event as unknown as MentionEvent;
+      const eventId = typeof body.event_id === 'string' ? body.event_id : undefined;
+      const dedupKeys = eventDedupKeys(eventId, mentionEvent);
+      // Slack redelivers when we were slow or errored; the original delivery may be on another instance
+      const retryNum = request.headers.get('x-slack-retry-num');
+      const retryReason = request.headers.get('x-slack-retry-reason');
       
-      // Check if we've already processed this event
-      if (isEventProcessed(eventKey)) {
-        logger.slack.debug('Duplicate event detected, ignoring', {
-          eventKey,
-          eventType: event.type,
-          channel: mentionEvent.channel,
-          ts: mentionEvent.ts
+      // A retry of an event that was already accepted needs nothing more, not even a dedup write
+      if (retryNum) {
+        const seen = await getEventDedupStore().has(dedupKeys).catch((error) => {
+          logger.slack.error('Dedup store unavailable, checking retry by claiming', error as Error, { eventId });
+          return false;
         });
-        return NextResponse.json({ ok: true });
+        if (seen) {
+          logger.slack.info('Retry of an accepted event, acknowledging', { eventId, retryNum, retryReason });
+          return withoutRetry(NextResponse.json({ ok: true }));
+        }
+      }
+      
+      let isNew: boolean;
+      try {
+        isNew = await getEventDedupStore().claim(dedupKeys);
+      } catch (error) {
+        // Better to risk a duplicate answer than to drop the question
+        logger.slack.error('Dedup store unavailable, processing event anyway', error as Error, { eventId });
+        isNew = true;
       }
       
-      // Mark event as processed
-      markEventProcessed(eventKey);
+      if (!isNew) {
+        logger.slack.info('Dedup hit, ignoring event', {
+          eventId,
+          eventType: event.type,
+          dedupKeys,
+          retryNum,
+          retryReason
+        });
+        return withoutRetry(NextResponse.json({ ok: true }));
+      }
       
-      logger.slack.info('Bot mention detected', { 
+      logger.slack.info('Dedup miss, bot mention detected', { 
+        eventId,
         eventType: event.type,
         isAppMention,
         isMessageWithMention,
+        isDirectMessage,
         botUserId,
-        eventKey
+        retryNum,
+        retryReason
       });
       logger.slack.info('Event details', {
         text: mentionEvent.text,
@@ -159,10 +174,16 @@ export async function POST(request: NextRequest) {
         ts: mentionEvent.ts,
         user: mentionEvent.user
       });
-      // Process async (don't make Slack wait)
-      handleAppMention(mentionEvent).catch((error) => {
-        logger.slack.error('Error in handleAppMention', error as Error);
-      });
+      // Queue the work and acknowledge right away - Slack retries anything slower than 3 seconds
+      try {
+        const job = await getJobQueue().enqueue('app_mention', { event: mentionEvent, botUserId: botUserId ?? null });
+        logger.slack.info('Queued mention job', { jobId: job.id, eventId });
+      } catch (error) {
+        logger.slack.error('Failed to queue mention job', error as Error, { eventId });
+        // Let Slack's retry through the dedup check so it gets another chance
+        await getEventDedupStore().release(dedupKeys).catch(() => {});
+        return NextResponse.json({ error: 'Failed to queue event' }, { status: 500 });
+      }
       return NextResponse.json({ ok: true });
     }
     
@@ -172,7 +193,7 @@ export async function POST(request: NextRequest) {
         hasBotId: !!event.bot_id,
         text: typeof event.text === 'string' ? event.text.substring(0, 100) : undefined
       });
-      return NextResponse.json({ ok: true });
+      return withoutRetry(NextResponse.json({ ok: true }));
     }
     
     // Log other event types for debugging
@@ -180,7 +201,7 @@ export async function POST(request: NextRequest) {
       eventType: event.type,
       hasBotId: !!event.bot_id
     });
-    return NextResponse.json({ ok: true });
+    return withoutRetry(NextResponse.json({ ok: true }));
   }
   
   logger.slack.warn('Unhandled request type', { 
@@ -189,228 +210,5 @@ export async function POST(request: NextRequest) {
       ? (body.event as { type: string }).type 
       : 'no event'
   });
-  return NextResponse.json({ ok: true });
-}
-
-async function handleSetupCommand(body: { user_id: string; channel_id: string }) {
-  const userId = body.user_id;
-  const setupUrl = `${process.env.NEXT_PUBLIC_URL}/setup?user=${userId}`;
-  
-  await slack.chat.postEphemeral({
-    channel: body.channel_id,
-    user: userId,
-    text: `🤖 Set up your AI agent`,
-    blocks: [
-      {
-        type: 'section',
-        text: {
-          type: 'mrkdwn',
-          text: '*Set Up Your AI Agent*\n\nConnect your accounts so teammates can ask your agent questions while you\'re offline.'
-        }
-      },
-      {
-        type: 'actions',
-        elements: [
-          {
-            type: 'button',
-            text: { type: 'plain_text', text: '🚀 Set Up Now', emoji: true },
-            url: setupUrl,
-            style: 'primary'
-          }
-        ]
-      },
-      {
-        type: 'context',
-        elements: [
-          {
-            type: 'mrkdwn',
-            text: '💡 Your agent will answer questions based on your Calendar, Slack, Jira, and more!'
-          }
-        ]
-      }
-    ]
-  });
+  return withoutRetry(NextResponse.json({ ok: true }));
 }
-
-async function handleAppMention(event: { text: string; channel: string; ts: string }) {
-  logger.mention.info('Starting to handle app mention');
-  const text = event.text;
-  const channel = event.channel;
-  const threadTs = event.ts;
-  
-  logger.mention.debug('Original message text', { text });
-  
-  // Parse the message to extract target user and question
-  const { targetUserId, question } = parseMessage(text);
-  logger.mention.info('Parsed message', { targetUserId, question });
-  
-  if (!targetUserId || !question) {
-    logger.mention.warn('Missing targetUserId or question', { targetUserId, question });
-    await slack.chat.postMessage({
-      channel,
-      thread_ts: threadTs,
-      text: '❓ I couldn\'t understand that. Try:\n`@Team Agent Bot ask @john what is he working on?`'
-    });
-    return;
-  }
-  
-  logger.mention.info('Looking up agent data', { 
-    targetUserId, 
-    availableAgentIds: getAllAgentIds() 
-  });
-  // Get agent data
-  const agentData = getAgentData(targetUserId);
-  
-  if (!agentData) {
-    logger.mention.warn('No agent data found', { 
-      targetUserId, 
-      availableAgentIds: getAllAgentIds() 
-    });
-    const userInfo = await slack.users.info({ user: targetUserId });
-    logger.mention.info('User info retrieved', { userName: userInfo.user?.name });
-    await slack.chat.postMessage({
-      channel,
-      thread_ts: threadTs,
-      text: `@${userInfo.user?.name} hasn't set up their agent yet. They can use \`/setup-agent\` to get started!`
-    });
-    return;
-  }
-  
-  logger.mention.info('Found agent data', {
-    name: agentData.name,
-    displayName: agentData.displayName,
-    hasCalendar: agentData.data.calendar.length > 0,
-    hasSlack: agentData.data.slack.length > 0,
-    hasJira: agentData.data.linear.length > 0
-  });
-  
-  // Show thinking message
-  logger.mention.debug('Posting thinking message');
-  const thinkingMsg = await slack.chat.postMessage({
-    channel,
-    thread_ts: threadTs,
-    text: `Asking ${agentData.displayName}'s agent...`
-  });
-  
-  try {
-    // Build context for AI
-    logger.mention.debug('Building context for AI');
-    const context = buildContext(agentData, question);
-    logger.mention.debug('Context built', { contextLength: context.length });
-    
-    // Query DeepSeek using Vercel AI SDK (lazy loaded)
-    logger.llm.info('Calling DeepSeek LLM', { 
-      model: 'deepseek-chat',
-      questionLength: question.length,
-      contextLength: context.length
-    });
-    const startTime = Date.now();
-    const deepseek = await getDeepSeek();
-    const generateText = await getGenerateText();
-    const { text: answer } = await generateText({
-      model: deepseek('deepseek-chat'),
-      system: `You are an AI assistant representing ${agentData.displayName}. Answer questions based on the provided data about their work. Be helpful and concise. If you don't have enough information, say so.`,
-      prompt: context,
-      maxOutputTokens: 300,
-      temperature: 0.7
-    });
-    const endTime = Date.now();
-    const duration = endTime - startTime;
-    logger.llm.info('LLM response received', {
-      durationMs: duration,
-      answerLength: answer.length,
-      answerPreview: answer.substring(0, 100)
-    });
-    
-    // Calculate sources
-    const sources = [];
-    if (agentData.data.calendar.length > 0) sources.push('Calendar');
-    if (agentData.data.slack.length > 0) sources.push('Slack');
-    if (agentData.data.linear.length > 0) sources.push('Linear');
-    
-    logger.mention.debug('Updating Slack message with answer');
-    // Update message with answer
-    await slack.chat.update({
-      channel,
-      ts: thinkingMsg.ts!,
-      text: answer,
-      blocks: [
-        {
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: `🤖 *${agentData.displayName}'s Agent:*\n\n${answer}`
-          }
-        },
-        {
-          type: 'context',
-          elements: [
-            {
-              type: 'mrkdwn',
-              text: `📎 Sources: ${sources.join(', ')}`
-            }
-          ]
-        }
-      ]
-    });
-    logger.mention.info('Successfully updated Slack message', { 
-      channel, 
-      messageTs: thinkingMsg.ts 
-    });
-    
-  } catch (error) {
-    logger.mention.error('Error in handleAppMention', error as Error, {
-      channel,
-      targetUserId,
-      question
-    });
-    await slack.chat.update({
-      channel,
-      ts: thinkingMsg.ts!,
-      text: 'Sorry, I encountered an error. Please try again.'
-    });
-  }
-}
-
-function parseMessage(text: string): { targetUserId: string | null; question: string } {
-  logger.parse.debug('Parsing message', { text });
-  // Extract user mentions - format: <@U12345>
-  const mentions = text.match(/<@(U[A-Z0-9]+)>/g);
-  logger.parse.debug('Found mentions', { mentions });
-  
-  // First mention is the bot, second is the target user
-  const targetUserId = mentions && mentions.length > 1 
-    ? mentions[1].replace(/<@|>/g, '')
-    : null;
-  
-  // Extract question (remove all mentions and common words)
-  const question = text
-    .replace(/<@[^>]+>/g, '')
-    .replace(/agent/gi, '')
-    .replace(/ask/gi, '')
-    .replace(/what/gi, 'what')
-    .replace(/\s+/g, ' ')
-    .trim();
-  
-  logger.parse.info('Message parsed', { targetUserId, question, mentionCount: mentions?.length || 0 });
-  
-  return { targetUserId, question };
-}
-
-function buildContext(agentData: { displayName: string; data: { calendar: string[]; slack: string[]; linear: string[] } }, question: string): string {
-  let context = `Based on the following information about ${agentData.displayName}, answer this question: "${question}"\n\n`;
-  
-  if (agentData.data.calendar.length > 0) {
-    context += `**Calendar Events:**\n${agentData.data.calendar.map((e: string) => `- ${e}`).join('\n')}\n\n`;
-  }
-  
-  if (agentData.data.slack.length > 0) {
-    context += `**Recent Slack Messages:**\n${agentData.data.slack.map((m: string) => `- ${m}`).join('\n')}\n\n`;
-  }
-  
-    if (agentData.data.linear.length > 0) {
-    context += `**Linear Tickets:**\n${agentData.data.linear.map((t: string) => `- ${t}`).join('\n')}\n\n`;
-  }
-  
-  return context;
-}
\ No newline at end of file
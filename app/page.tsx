@@ -36,7 +36,7 @@ export default function Home() {
         <div className="text-center">
           <p className="text-purple-300 mb-6 text-lg font-medium">Ready to try it?</p>
           <code className="bg-black/60 border border-purple-500/30 text-purple-300 px-6 py-3 rounded-lg inline-block font-mono text-sm sm:text-base hover:border-purple-500/50 hover:bg-black/80 transition-all duration-300 shadow-lg">
-            Type /setup-agent in Slack
+            Type /doppel setup in Slack
           </code>
         </div>
       </div>
@@ -4,33 +4,72 @@
 
 import { useSearchParams } from 'next/navigation';
 import { Suspense, useState, useEffect } from 'react';
+import type { EscalationRules, PrivacySettings } from '@/lib/agents/types';
+import type { ConnectionStatus, FetchTestResult, ToolHealth } from '@/lib/composio/connection-state';
+import { INTEGRATIONS, type Integration, type IntegrationId } from '@/lib/composio/integrations';
+import { SOURCE_LABELS, type ContextSource } from '@/lib/context/types';
+import { DEFAULT_ESCALATION_RULES } from '@/lib/escalation/rules';
+import { DEFAULT_PRIVACY_SETTINGS } from '@/lib/privacy/settings';
 
 function SetupContent() {
   const searchParams = useSearchParams();
-  const userId = searchParams.get('user');
   const connected = searchParams.get('connected');
   const error = searchParams.get('error');
   
   const [connectedTools, setConnectedTools] = useState<Set<string>>(new Set());
   const [connectionIds, setConnectionIds] = useState<Record<string, string>>({});
+  const [health, setHealth] = useState<Partial<Record<IntegrationId, ToolHealth>>>({});
   const [connectingTool, setConnectingTool] = useState<string | null>(null);
   const [disconnectingTool, setDisconnectingTool] = useState<string | null>(null);
+  const [testingTool, setTestingTool] = useState<string | null>(null);
   const [loadingStatus, setLoadingStatus] = useState(true);
+  // Comes from the session cookie set by the link in Slack, never from the URL
+  const [userId, setUserId] = useState<string | null>(null);
+  const [signedOut, setSignedOut] = useState(false);
+  const [escalation, setEscalation] = useState<EscalationRules | null>(null);
+  const [privacy, setPrivacy] = useState<PrivacySettings | null>(null);
+
+  // Make sure the signed-in user has an agent profile on mount
+  useEffect(() => {
+    fetch('/api/agents', { method: 'POST' })
+      .then(response => {
+        if (response.status === 401) {
+          setSignedOut(true);
+          setLoadingStatus(false);
+          return null;
+        }
+        return response.ok ? response.json() : null;
+      })
+      .then(data => {
+        if (data?.profile) {
+          setUserId(data.profile.userId);
+          setEscalation(data.profile.escalation ?? DEFAULT_ESCALATION_RULES);
+          setPrivacy(data.profile.privacy ?? DEFAULT_PRIVACY_SETTINGS);
+        } else {
+          setLoadingStatus(false);
+        }
+      })
+      .catch(err => {
+        console.error('Error creating agent profile:', err);
+        setLoadingStatus(false);
+      });
+  }, []);
+
+  const applyStatus = (status: Partial<ConnectionStatus>) => {
+    setConnectedTools(new Set(status.connectedTools || []));
+    setConnectionIds(status.connectionIds || {});
+    setHealth(status.tools || {});
+  };
 
   // Fetch connection status on mount
   useEffect(() => {
     const fetchConnectionStatus = async () => {
-      if (!userId) {
-        setLoadingStatus(false);
-        return;
-      }
+      if (!userId) return;
 
       try {
-        const response = await fetch(`/api/composio/status?user=${encodeURIComponent(userId)}`);
+        const response = await fetch('/api/composio/status');
         if (response.ok) {
-          const data = await response.json();
-          setConnectedTools(new Set(data.connectedTools || []));
-          setConnectionIds(data.connectionIds || {});
+          applyStatus(await response.json());
         }
       } catch (err) {
         console.error('Error fetching connection status:', err);
@@ -48,15 +87,16 @@ function SetupContent() {
       setConnectedTools(prev => new Set(prev).add(connected));
       // Clear URL parameter after showing success message
       const timer = setTimeout(() => {
-        window.history.replaceState({}, '', window.location.pathname + `?user=${userId}`);
+        window.history.replaceState({}, '', window.location.pathname);
       }, 3000);
       return () => clearTimeout(timer);
     }
-  }, [connected, userId]);
+  }, [connected]);
 
-  const handleConnect = async (tool: string) => {
+  // `reconnect` replaces an expired or failing connection with a new one
+  const handleConnect = async ({ id: integrationId, name: tool }: Integration, reconnect = false) => {
     if (!userId) {
-      alert('User ID is required');
+      alert('Please open the setup link from Slack first');
       return;
     }
 
@@ -65,7 +105,7 @@ function SetupContent() {
     try {
       // Call the API to get the redirect URL
       const response = await fetch(
-        `/api/composio/connect?tool=${encodeURIComponent(tool)}&user=${encodeURIComponent(userId)}`
+        `/api/composio/connect?tool=${encodeURIComponent(integrationId)}${reconnect ? '&reconnect=1' : ''}`
       );
 
       if (!response.ok) {
@@ -78,11 +118,9 @@ function SetupContent() {
 
       // If already connected, just refresh the status
       if (alreadyConnected) {
-        const statusResponse = await fetch(`/api/composio/status?user=${encodeURIComponent(userId)}`);
+        const statusResponse = await fetch('/api/composio/status?refresh=1');
         if (statusResponse.ok) {
-          const statusData = await statusResponse.json();
-          setConnectedTools(new Set(statusData.connectedTools || []));
-          setConnectionIds(statusData.connectionIds || {});
+          applyStatus(await statusResponse.json());
         }
         setConnectingTool(null);
         return;
@@ -107,42 +145,17 @@ function SetupContent() {
 
       // Listen for messages from the popup
       const messageHandler = async (event: MessageEvent) => {
-        // In production, you should verify event.origin for security
-        if (event.data.type === 'composio-oauth-complete') {
+        // The callback posts only to our origin; ignore anything else
+        if (event.origin !== window.location.origin) return;
+        if (event.data?.type === 'composio-oauth-complete') {
           window.removeEventListener('message', messageHandler);
           
           if (event.data.success) {
-            // Wait a bit for connection to be fully processed, then refresh status
-            // Retry a few times in case the connection isn't immediately ACTIVE
-            let retries = 5;
-            const checkStatus = async (): Promise<boolean> => {
-              const statusResponse = await fetch(`/api/composio/status?user=${encodeURIComponent(userId)}`);
-              if (statusResponse.ok) {
-                const statusData = await statusResponse.json();
-                const hasConnection = statusData.connectedTools?.includes(tool);
-                const connectionId = statusData.connectionIds?.[tool];
-                
-                if (hasConnection && connectionId) {
-                  // Connection is ready with ID
-                  setConnectedTools(new Set(statusData.connectedTools || []));
-                  setConnectionIds(statusData.connectionIds || {});
-                  return true;
-                } else if (retries > 0) {
-                  // Retry after a short delay
-                  retries--;
-                  await new Promise(resolve => setTimeout(resolve, 1000));
-                  return checkStatus();
-                } else {
-                  // Still not connected after retries, but update anyway
-                  setConnectedTools(new Set(statusData.connectedTools || []));
-                  setConnectionIds(statusData.connectionIds || {});
-                  return false;
-                }
-              }
-              return false;
-            };
-            
-            await checkStatus();
+            // The callback stores the new connection before notifying us, so one read is enough
+            const statusResponse = await fetch('/api/composio/status');
+            if (statusResponse.ok) {
+              applyStatus(await statusResponse.json());
+            }
             // Show success message
             alert(`✅ Successfully connected ${tool}!`);
           } else {
@@ -171,9 +184,9 @@ function SetupContent() {
     }
   };
 
-  const handleDisconnect = async (tool: string) => {
+  const handleDisconnect = async ({ id: integrationId, name: tool }: Integration) => {
     if (!userId) {
-      alert('User ID is required');
+      alert('Please open the setup link from Slack first');
       return;
     }
 
@@ -213,6 +226,12 @@ function SetupContent() {
         return newIds;
       });
 
+      setHealth(prev => {
+        const newHealth = { ...prev };
+        delete newHealth[integrationId];
+        return newHealth;
+      });
+
       alert(`✅ Successfully disconnected ${tool}!`);
     } catch (err) {
       console.error('Error disconnecting:', err);
@@ -222,7 +241,39 @@ function SetupContent() {
     }
   };
 
-  const tools = ['Google Calendar', 'Slack', 'Linear', 'GitHub'];
+  // Read once through the connection to confirm the agent can actually see data
+  const handleTest = async ({ id: integrationId, name: tool }: Integration) => {
+    setTestingTool(tool);
+
+    try {
+      const response = await fetch(
+        `/api/composio/test?tool=${encodeURIComponent(integrationId)}`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to test connection');
+      }
+
+      const { results } = await response.json() as { results: Partial<Record<IntegrationId, FetchTestResult>> };
+      const result = results[integrationId];
+      alert(result?.ok
+        ? `✅ ${tool} works - your agent can see ${result.itemCount} item${result.itemCount === 1 ? '' : 's'}.`
+        : `${tool} couldn't read any data: ${result?.error || 'unknown error'}`);
+
+      // The test records its result, so refresh the health shown on the card
+      const statusResponse = await fetch('/api/composio/status');
+      if (statusResponse.ok) {
+        applyStatus(await statusResponse.json());
+      }
+    } catch (err) {
+      console.error('Error testing connection:', err);
+      alert(err instanceof Error ? err.message : 'Failed to test connection. Please try again.');
+    } finally {
+      setTestingTool(null);
+    }
+  };
 
   return (
     <div className="min-h-screen gradient-black-purple p-4 sm:p-6 lg:p-8">
@@ -240,7 +291,16 @@ function SetupContent() {
               {error === 'missing_params' && 'Missing required parameters. Please try again.'}
               {error === 'connection_failed' && 'Connection failed. Please try again.'}
               {error === 'callback_error' && 'An error occurred during connection. Please try again.'}
-              {!['missing_params', 'connection_failed', 'callback_error'].includes(error) && 'An error occurred. Please try again.'}
+              {error === 'link_expired' && 'This setup link has expired. Run /doppel setup in Slack to get a new one.'}
+              {!['missing_params', 'connection_failed', 'callback_error', 'link_expired'].includes(error) && 'An error occurred. Please try again.'}
+            </p>
+          </div>
+        )}
+
+        {signedOut && !error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl">
+            <p className="text-red-300 text-sm">
+              You&apos;re not signed in. Run /doppel setup in Slack and open the link it gives you.
             </p>
           </div>
         )}
@@ -259,11 +319,16 @@ function SetupContent() {
               <p className="text-purple-200/70">Loading connection status...</p>
             </div>
           ) : (
-            tools.map(tool => {
+            INTEGRATIONS.map(integration => {
+              const tool = integration.name;
               const isConnected = connectedTools.has(tool);
               const isConnecting = connectingTool === tool;
               const isDisconnecting = disconnectingTool === tool;
-              
+              const isTesting = testingTool === tool;
+              const toolHealth = health[integration.id];
+              // Expired, revoked or unable to read data: the owner has to authorize again
+              const needsReconnect = toolHealth?.state === 'needs_reauth' || toolHealth?.state === 'error';
+
               return (
                 <div 
                   key={tool} 
@@ -271,32 +336,65 @@ function SetupContent() {
                 >
                   <div className="flex-1">
                     <h3 className="font-semibold text-lg sm:text-xl mb-1 text-white group-hover:text-purple-300 transition-colors duration-300">
+                      <span className="mr-2">{integration.icon}</span>
                       {tool}
-                      {isConnected && <span className="ml-2 text-green-400">✓</span>}
+                      {isConnected && !needsReconnect && <span className="ml-2 text-green-400">✓</span>}
+                      {needsReconnect && <span className="ml-2 text-yellow-400">⚠</span>}
                     </h3>
                     <p className="text-sm sm:text-base text-purple-200/70">
-                      {isConnected ? 'Connected' : `Access your ${tool.toLowerCase()} data`}
+                      {toolHealth && toolHealth.state !== 'not_connected'
+                        ? healthText(toolHealth)
+                        : integration.capabilities.join(', ')}
                     </p>
                   </div>
-                  <button 
-                    onClick={() => isConnected ? handleDisconnect(tool) : handleConnect(tool)}
-                    disabled={isConnecting || isDisconnecting}
-                    className={`${
-                      isConnected 
-                        ? 'bg-red-500/20 text-red-300 border border-red-500/30 hover:bg-red-500/30 hover:border-red-500/50' 
-                        : isConnecting || isDisconnecting
-                        ? 'bg-purple-500/50 text-purple-200 cursor-wait'
-                        : 'bg-[#8B5CF6] text-white hover:bg-[#7C3AED] hover:shadow-lg hover:shadow-purple-500/30 active:scale-95'
-                    } px-6 py-2.5 sm:px-8 sm:py-3 rounded-lg font-medium transition-all duration-300 w-full sm:w-auto`}
-                  >
-                    {isDisconnecting ? 'Disconnecting...' : isConnecting ? 'Connecting...' : isConnected ? 'Disconnect' : 'Connect'}
-                  </button>
+                  <div className="flex gap-2 w-full sm:w-auto">
+                    {isConnected && !needsReconnect && (
+                      <button
+                        onClick={() => handleTest(integration)}
+                        disabled={isTesting}
+                        className={`${
+                          isTesting ? 'cursor-wait text-purple-200/50' : 'text-purple-200 hover:bg-purple-500/20'
+                        } border border-purple-500/30 px-4 py-2.5 sm:py-3 rounded-lg font-medium transition-all duration-300`}
+                      >
+                        {isTesting ? 'Testing...' : 'Test'}
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => needsReconnect
+                        ? handleConnect(integration, true)
+                        : isConnected ? handleDisconnect(integration) : handleConnect(integration, toolHealth?.state === 'pending')}
+                      disabled={isConnecting || isDisconnecting}
+                      className={`${
+                        isConnected && !needsReconnect
+                          ? 'bg-red-500/20 text-red-300 border border-red-500/30 hover:bg-red-500/30 hover:border-red-500/50' 
+                          : isConnecting || isDisconnecting
+                          ? 'bg-purple-500/50 text-purple-200 cursor-wait'
+                          : 'bg-[#8B5CF6] text-white hover:bg-[#7C3AED] hover:shadow-lg hover:shadow-purple-500/30 active:scale-95'
+                      } px-6 py-2.5 sm:px-8 sm:py-3 rounded-lg font-medium transition-all duration-300 w-full sm:w-auto`}
+                    >
+                      {isDisconnecting
+                        ? 'Disconnecting...'
+                        : isConnecting
+                        ? 'Connecting...'
+                        : needsReconnect
+                        ? 'Reconnect'
+                        : isConnected ? 'Disconnect' : 'Connect'}
+                    </button>
+                  </div>
                 </div>
               );
             })
           )}
         </div>
         
+        {userId && escalation && (
+          <EscalationSettings initialRules={escalation} />
+        )}
+        
+        {userId && privacy && (
+          <PrivacySettingsForm initialSettings={privacy} />
+        )}
+        
         <div className="bg-purple-500/10 border border-purple-500/30 rounded-xl p-5 sm:p-6 hover:border-purple-500/50 transition-all duration-300">
           <p className="text-sm sm:text-base text-purple-200/90 leading-relaxed">
             Try it: <code className="bg-black/60 border border-purple-500/30 text-purple-300 px-3 py-1.5 rounded-lg font-mono text-xs sm:text-sm ml-1">@Team Agent Bot ask @yourname what are you working on?</code>
@@ -307,6 +405,209 @@ function SetupContent() {
   );
 }
 
+function healthText(toolHealth: ToolHealth): string {
+  const lastFetch = toolHealth.lastFetchAt
+    ? ` · last synced ${new Date(toolHealth.lastFetchAt).toLocaleString()}`
+    : '';
+  switch (toolHealth.state) {
+    case 'connected':
+      return `Connected${lastFetch}`;
+    case 'needs_reauth':
+      return 'Access expired or was revoked - reconnect to keep your agent up to date';
+    case 'pending':
+      return 'Waiting for you to finish authorizing';
+    case 'error':
+      return `Can't read data${toolHealth.lastError ? `: ${toolHealth.lastError}` : ''}${lastFetch}`;
+    default:
+      return 'Not connected';
+  }
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function EscalationSettings({ initialRules }: { initialRules: EscalationRules }) {
+  const [keywords, setKeywords] = useState(initialRules.keywords.join(', '));
+  const [blockedChannels, setBlockedChannels] = useState(initialRules.blockedChannels.join(', '));
+  const [minConfidence, setMinConfidence] = useState(
+    initialRules.minConfidence === null ? '' : String(Math.round(initialRules.minConfidence * 100))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const rules: EscalationRules = {
+        keywords: splitList(keywords),
+        blockedChannels: splitList(blockedChannels),
+        minConfidence: minConfidence === '' ? null : Math.min(Math.max(Number(minConfidence), 0), 100) / 100,
+      };
+      const response = await fetch('/api/agents', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ escalation: rules }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save escalation rules');
+      }
+      alert('✅ Escalation rules saved!');
+    } catch (err) {
+      console.error('Error saving escalation rules:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save escalation rules. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full bg-black/60 border border-purple-500/30 text-purple-100 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500/60';
+
+  return (
+    <div className="border border-purple-500/20 rounded-xl p-5 sm:p-6 mb-8 sm:mb-10 bg-black/20 space-y-4">
+      <div>
+        <h2 className="font-semibold text-lg sm:text-xl mb-1 text-white">Escalation Rules</h2>
+        <p className="text-sm text-purple-200/70">
+          When a rule matches, your agent hands the question to you with a DM instead of answering.
+        </p>
+      </div>
+      <label className="block">
+        <span className="text-sm text-purple-200/90">Topics or keywords that always escalate (comma-separated)</span>
+        <input className={inputClassName} value={keywords} onChange={e => setKeywords(e.target.value)} placeholder="salary, hiring, legal" />
+      </label>
+      <label className="block">
+        <span className="text-sm text-purple-200/90">Channel IDs where your agent must not answer (comma-separated)</span>
+        <input className={inputClassName} value={blockedChannels} onChange={e => setBlockedChannels(e.target.value)} placeholder="C0123456789" />
+      </label>
+      <label className="block">
+        <span className="text-sm text-purple-200/90">Escalate when confidence is below (%, leave empty to disable)</span>
+        <input className={inputClassName} type="number" min={0} max={100} value={minConfidence} onChange={e => setMinConfidence(e.target.value)} placeholder="60" />
+      </label>
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className={`${
+          saving
+            ? 'bg-purple-500/50 text-purple-200 cursor-wait'
+            : 'bg-[#8B5CF6] text-white hover:bg-[#7C3AED] hover:shadow-lg hover:shadow-purple-500/30 active:scale-95'
+        } px-6 py-2.5 rounded-lg font-medium transition-all duration-300`}
+      >
+        {saving ? 'Saving...' : 'Save Rules'}
+      </button>
+    </div>
+  );
+}
+
+function PrivacySettingsForm({ initialSettings }: { initialSettings: PrivacySettings }) {
+  const [hiddenSources, setHiddenSources] = useState<Set<ContextSource>>(new Set(initialSettings.hiddenSources));
+  const [calendarDetail, setCalendarDetail] = useState(initialSettings.calendarDetail);
+  const [maskPrivateEvents, setMaskPrivateEvents] = useState(initialSettings.maskPrivateEvents);
+  const [excludePrivateSlack, setExcludePrivateSlack] = useState(initialSettings.excludePrivateSlack);
+  const [allowedRequesters, setAllowedRequesters] = useState(initialSettings.allowedRequesters.join(', '));
+  const [allowedChannels, setAllowedChannels] = useState(initialSettings.allowedChannels.join(', '));
+  const [saving, setSaving] = useState(false);
+
+  const toggleSource = (source: ContextSource) => {
+    setHiddenSources(prev => {
+      const next = new Set(prev);
+      if (next.has(source)) {
+        next.delete(source);
+      } else {
+        next.add(source);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const settings: PrivacySettings = {
+        hiddenSources: Array.from(hiddenSources),
+        calendarDetail,
+        maskPrivateEvents,
+        excludePrivateSlack,
+        allowedRequesters: splitList(allowedRequesters),
+        allowedChannels: splitList(allowedChannels),
+      };
+      const response = await fetch('/api/agents', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ privacy: settings }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save privacy settings');
+      }
+      alert('✅ Privacy settings saved!');
+    } catch (err) {
+      console.error('Error saving privacy settings:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save privacy settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full bg-black/60 border border-purple-500/30 text-purple-100 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500/60';
+  const checkboxClassName = 'flex items-center gap-2 text-sm text-purple-200/90';
+
+  return (
+    <div className="border border-purple-500/20 rounded-xl p-5 sm:p-6 mb-8 sm:mb-10 bg-black/20 space-y-4">
+      <div>
+        <h2 className="font-semibold text-lg sm:text-xl mb-1 text-white">Privacy</h2>
+        <p className="text-sm text-purple-200/70">
+          Choose what your agent can see and who it answers. Everything else stays out of its answers.
+        </p>
+      </div>
+      <div>
+        <span className="text-sm text-purple-200/90">Sources your agent may use</span>
+        <div className="flex flex-wrap gap-4 mt-2">
+          {(Object.keys(SOURCE_LABELS) as ContextSource[]).map(source => (
+            <label key={source} className={checkboxClassName}>
+              <input type="checkbox" checked={!hiddenSources.has(source)} onChange={() => toggleSource(source)} />
+              {SOURCE_LABELS[source]}
+            </label>
+          ))}
+        </div>
+      </div>
+      <label className="block">
+        <span className="text-sm text-purple-200/90">Calendar sharing</span>
+        <select className={inputClassName} value={calendarDetail} onChange={e => setCalendarDetail(e.target.value as PrivacySettings['calendarDetail'])}>
+          <option value="full">Event titles and times</option>
+          <option value="busy">Busy/free only</option>
+        </select>
+      </label>
+      <label className={checkboxClassName}>
+        <input type="checkbox" checked={maskPrivateEvents} onChange={e => setMaskPrivateEvents(e.target.checked)} />
+        Hide titles of meetings marked private
+      </label>
+      <label className={checkboxClassName}>
+        <input type="checkbox" checked={excludePrivateSlack} onChange={e => setExcludePrivateSlack(e.target.checked)} />
+        Leave out messages from private channels and DMs
+      </label>
+      <label className="block">
+        <span className="text-sm text-purple-200/90">Only answer these people (Slack user IDs, comma-separated, empty for everyone)</span>
+        <input className={inputClassName} value={allowedRequesters} onChange={e => setAllowedRequesters(e.target.value)} placeholder="U0123456789" />
+      </label>
+      <label className="block">
+        <span className="text-sm text-purple-200/90">Only answer in these channels (channel IDs, comma-separated, empty for all)</span>
+        <input className={inputClassName} value={allowedChannels} onChange={e => setAllowedChannels(e.target.value)} placeholder="C0123456789" />
+      </label>
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className={`${
+          saving
+            ? 'bg-purple-500/50 text-purple-200 cursor-wait'
+            : 'bg-[#8B5CF6] text-white hover:bg-[#7C3AED] hover:shadow-lg hover:shadow-purple-500/30 active:scale-95'
+        } px-6 py-2.5 rounded-lg font-medium transition-all duration-300`}
+      >
+        {saving ? 'Saving...' : 'Save Privacy Settings'}
+      </button>
+    </div>
+  );
+}
+
 export default function SetupPage() {
   return (
     <Suspense fallback={
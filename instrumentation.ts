@@ -0,0 +1,16 @@
+// instrumentation.ts
+// Runs once when a server instance starts. Resolving each durable store here makes a storage
+// setup that would lose data fail the deploy, instead of the first request that touches it.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  (await import('@/lib/agents/store')).getAgentProfileStore();
+  (await import('@/lib/conversations/store')).getConversationStore();
+  (await import('@/lib/history/store')).getAnswerHistoryStore();
+  (await import('@/lib/slack/dedup')).getEventDedupStore();
+  (await import('@/lib/retrieval/store')).getVectorIndexStore();
+  (await import('@/lib/jobs/queue')).getJobQueue();
+}
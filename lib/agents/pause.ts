@@ -0,0 +1,42 @@
+// lib/agents/pause.ts
+// Owners can pause their agent for a while (or until they resume) so it stops answering for them
+
+import type { AgentPause, AgentProfile } from './types';
+
+const DURATION = /^(\d+)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|wks?|weeks?)$/i;
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+// A pause longer than this is almost certainly a typo
+const MAX_PAUSE_MS = 90 * UNIT_MS.d;
+
+// Parse "30m", "2h", "3 days" etc. into milliseconds; null if unrecognised or out of range
+export function parseDuration(text: string): number | null {
+  const match = text.trim().match(DURATION);
+  if (!match) return null;
+  const ms = Number(match[1]) * UNIT_MS[match[2][0].toLowerCase()];
+  return ms > 0 && ms <= MAX_PAUSE_MS ? ms : null;
+}
+
+export function createPause(durationMs: number | null, now: Date = new Date()): AgentPause {
+  return {
+    since: now.toISOString(),
+    until: durationMs === null ? null : new Date(now.getTime() + durationMs).toISOString(),
+  };
+}
+
+export function isPaused(profile: Pick<AgentProfile, 'pause'>, now: Date = new Date()): boolean {
+  const pause = profile.pause;
+  if (!pause) return false;
+  return pause.until === null || Date.parse(pause.until) > now.getTime();
+}
+
+// "until <date>" in the reader's own timezone, or "until you resume" for open-ended pauses
+export function pauseEndText(pause: AgentPause, resumeHint = 'until they\'re back'): string {
+  if (!pause.until) return resumeHint;
+  const unix = Math.floor(Date.parse(pause.until) / 1000);
+  return `until <!date^${unix}^{date_short_pretty} at {time}|${pause.until}>`;
+}
@@ -0,0 +1,40 @@
+// lib/agents/profiles.ts
+// Agent lookups used by the Slack handlers, backed by the profile store
+
+import { slack } from '@/lib/slack/client';
+import { logger } from '@/lib/logger';
+import { AgentProfileExistsError, getAgentProfileStore } from './store';
+import type { AgentProfile } from './types';
+
+export async function getAgentData(userId: string): Promise<AgentProfile | null> {
+  return getAgentProfileStore().get(userId);
+}
+
+export async function getAllAgentIds(): Promise<string[]> {
+  const profiles = await getAgentProfileStore().list();
+  return profiles.map((profile) => profile.userId);
+}
+
+// Create the user's profile from their Slack identity if it doesn't exist yet
+export async function ensureAgentProfile(userId: string): Promise<AgentProfile> {
+  const store = getAgentProfileStore();
+  const existing = await store.get(userId);
+  if (existing) return existing;
+
+  const userInfo = await slack.users.info({ user: userId });
+  const name = userInfo.user?.name || userId;
+  const displayName = userInfo.user?.profile?.display_name || userInfo.user?.real_name || name;
+
+  try {
+    const profile = await store.create(userId, { name, displayName });
+    logger.agents.info('Created agent profile', { userId, name, displayName });
+    return profile;
+  } catch (error) {
+    // Another request created it first - return that one
+    if (error instanceof AgentProfileExistsError) {
+      const profile = await store.get(userId);
+      if (profile) return profile;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,152 @@
+// lib/agents/store.ts
+// Persistent agent profile storage with pluggable backends
+
+import path from 'path';
+import { DEMO_AGENTS } from '@/lib/demo-data';
+import { createJsonFile, getDataDir, storeBackend } from '@/lib/storage/json-file';
+import { createRedisJsonDocument } from '@/lib/storage/redis';
+import type { AgentData, AgentProfile, AgentProfileInput, AgentProfilePatch } from './types';
+
+export interface AgentProfileStore {
+  get(userId: string): Promise<AgentProfile | null>;
+  list(): Promise<AgentProfile[]>;
+  create(userId: string, input: AgentProfileInput): Promise<AgentProfile>;
+  update(userId: string, patch: AgentProfilePatch): Promise<AgentProfile | null>;
+  // Build the patch from the current profile inside the same write, so concurrent updates aren't lost.
+  // `change` returns null to leave the profile as it is.
+  modify(userId: string, change: (profile: AgentProfile) => AgentProfilePatch | null): Promise<AgentProfile | null>;
+  delete(userId: string): Promise<boolean>;
+}
+
+export class AgentProfileExistsError extends Error {
+  constructor(userId: string) {
+    super(`Agent profile already exists for ${userId}`);
+    this.name = 'AgentProfileExistsError';
+  }
+}
+
+type ProfileMap = Record<string, AgentProfile>;
+
+function buildProfile(userId: string, input: AgentProfileInput): AgentProfile {
+  const now = new Date().toISOString();
+  return {
+    userId,
+    name: input.name,
+    displayName: input.displayName,
+    data: {
+      calendar: input.data?.calendar ?? [],
+      slack: input.data?.slack ?? [],
+      linear: input.data?.linear ?? [],
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function applyPatch(profile: AgentProfile, patch: AgentProfilePatch): AgentProfile {
+  return {
+    ...profile,
+    ...patch,
+    userId: profile.userId,
+    createdAt: profile.createdAt,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Shared CRUD logic over a map of profiles; backends only differ in how the map is loaded and saved
+function createMapStore(
+  read: () => Promise<ProfileMap>,
+  update: <R>(mutate: (profiles: ProfileMap) => R) => Promise<R>
+): AgentProfileStore {
+  return {
+    async get(userId) {
+      const profiles = await read();
+      return profiles[userId] ?? null;
+    },
+    async list() {
+      return Object.values(await read());
+    },
+    create(userId, input) {
+      return update((profiles) => {
+        if (profiles[userId]) {
+          throw new AgentProfileExistsError(userId);
+        }
+        profiles[userId] = buildProfile(userId, input);
+        return profiles[userId];
+      });
+    },
+    update(userId, patch) {
+      return update((profiles) => {
+        const existing = profiles[userId];
+        if (!existing) return null;
+        profiles[userId] = applyPatch(existing, patch);
+        return profiles[userId];
+      });
+    },
+    modify(userId, change) {
+      return update((profiles) => {
+        const existing = profiles[userId];
+        if (!existing) return null;
+        const patch = change(existing);
+        if (patch) profiles[userId] = applyPatch(existing, patch);
+        return profiles[userId];
+      });
+    },
+    delete(userId) {
+      return update((profiles) => {
+        if (!profiles[userId]) return false;
+        delete profiles[userId];
+        return true;
+      });
+    },
+  };
+}
+
+// In-memory backend for tests and demos; optionally seeded with static agent data
+export function createInMemoryAgentProfileStore(seed: Record<string, AgentData> = {}): AgentProfileStore {
+  const profiles: ProfileMap = {};
+  for (const [userId, agent] of Object.entries(seed)) {
+    profiles[userId] = buildProfile(userId, agent);
+  }
+  return createMapStore(
+    async () => profiles,
+    async (mutate) => mutate(profiles)
+  );
+}
+
+// File backend for local and self-hosted deployments
+export function createFileAgentProfileStore(filePath: string): AgentProfileStore {
+  const file = createJsonFile<ProfileMap>(filePath, () => ({}));
+  return createMapStore(file.read, file.update);
+}
+
+// Redis backend for serverless deployments, where instances share no filesystem
+export function createRedisAgentProfileStore(key: string): AgentProfileStore {
+  const document = createRedisJsonDocument<ProfileMap>(key, () => ({}));
+  return createMapStore(document.read, document.update);
+}
+
+let store: AgentProfileStore | null = null;
+
+// Backend is selected with AGENT_STORE=memory|file|redis (default: redis if configured, else file; see storeBackend).
+// The memory backend starts with the demo agents so the bot can be tried locally.
+export function getAgentProfileStore(): AgentProfileStore {
+  if (!store) {
+    const backend = storeBackend('AGENT_STORE', { durable: true });
+    if (backend === 'memory') {
+      store = createInMemoryAgentProfileStore(DEMO_AGENTS);
+    } else if (backend === 'redis') {
+      store = createRedisAgentProfileStore('agents');
+    } else {
+      store = createFileAgentProfileStore(
+        process.env.AGENT_STORE_PATH || path.join(getDataDir(), 'agents.json')
+      );
+    }
+  }
+  return store;
+}
+
+// Swap the backend, e.g. for an in-memory store in tests
+export function setAgentProfileStore(next: AgentProfileStore | null): void {
+  store = next;
+}
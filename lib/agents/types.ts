@@ -0,0 +1,77 @@
+// lib/agents/types.ts
+
+import type { IntegrationId } from '@/lib/composio/integrations';
+import type { ContextSource } from '@/lib/context/types';
+
+export interface AgentData {
+  name: string;
+  displayName: string;
+  data: {
+    calendar: string[];
+    slack: string[];
+    linear: string[];
+  };
+}
+
+// Owner-defined rules for when the agent hands a question off instead of answering
+export interface EscalationRules {
+  // Topics or keywords that always escalate (case-insensitive, whole words)
+  keywords: string[];
+  // Channel IDs where the agent must not answer
+  blockedChannels: string[];
+  // Escalate when the agent's self-reported confidence (0-1) is below this; null disables the check
+  minConfidence: number | null;
+}
+
+// Owner-defined limits on what their agent shares and with whom
+export interface PrivacySettings {
+  // Sources the agent may not look at
+  hiddenSources: ContextSource[];
+  // 'busy' shares only when the owner is busy, never what the event is
+  calendarDetail: 'full' | 'busy';
+  // Replace titles of events marked private with "Private event"
+  maskPrivateEvents: boolean;
+  // Leave out messages from private channels and DMs
+  excludePrivateSlack: boolean;
+  // Slack user IDs allowed to ask; empty allows everyone
+  allowedRequesters: string[];
+  // Channel IDs the agent answers in; empty allows every channel. DMs are governed by allowedRequesters only.
+  allowedChannels: string[];
+}
+
+// Set while the owner has told their agent to stop answering
+export interface AgentPause {
+  since: string;
+  // ISO 8601 end of the pause; null pauses until the owner resumes
+  until: string | null;
+}
+
+// Last known state of one of the owner's tool connections, kept current by Composio webhooks
+export interface StoredConnection {
+  connectionId: string;
+  // Composio status, e.g. ACTIVE, EXPIRED, REVOKED
+  status: string;
+  // ISO 8601 time the agent last read data through it
+  lastFetchAt?: string;
+  // Why the most recent read failed; cleared by the next successful one
+  lastError?: string;
+  updatedAt: string;
+}
+
+// A teammate's agent as persisted in the profile store, keyed by Slack user ID
+export interface AgentProfile extends AgentData {
+  userId: string;
+  escalation?: EscalationRules;
+  pause?: AgentPause | null;
+  privacy?: PrivacySettings;
+  // Unset until the connections are first synced from Composio
+  connections?: Partial<Record<IntegrationId, StoredConnection>>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AgentProfileInput = Pick<AgentData, 'name' | 'displayName'> & {
+  data?: Partial<AgentData['data']>;
+};
+
+export type AgentProfilePatch = Partial<Omit<AgentProfile, 'userId' | 'createdAt' | 'updatedAt'>>;
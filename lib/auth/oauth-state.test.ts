@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET as callback } from '@/app/api/composio/callback/route';
+import { createInMemoryAgentProfileStore, getAgentProfileStore, setAgentProfileStore } from '@/lib/agents/store';
+import { createFakeConnectionService, setConnectionService, type ConnectionService } from '@/lib/composio/connections';
+import { createOAuthState, oauthCallbackUrl, verifyOAuthState } from './oauth-state';
+import { SESSION_COOKIE } from './session';
+import { createToken } from './token';
+
+const BASE_URL = 'https://doppel.test';
+const NOW = 1_700_000_000_000;
+
+beforeEach(() => {
+  vi.stubEnv('SESSION_SECRET', 'session-secret');
+  vi.stubEnv('NEXT_PUBLIC_URL', BASE_URL);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('OAuth state', () => {
+  it('carries the user, the tool and when the flow started', () => {
+    vi.useFakeTimers({ now: NOW });
+
+    expect(verifyOAuthState(createOAuthState('U1', 'github'))).toEqual({ userId: 'U1', integrationId: 'github', issuedAt: NOW });
+  });
+
+  it('is unique for every attempt', () => {
+    expect(createOAuthState('U1', 'github')).not.toBe(createOAuthState('U1', 'github'));
+  });
+
+  it('expires after 10 minutes', () => {
+    vi.useFakeTimers({ now: NOW });
+    const state = createOAuthState('U1', 'github');
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    expect(verifyOAuthState(state)).toBeNull();
+  });
+
+  it.each([
+    { name: 'a session token', state: () => createToken('U1', 'session', 60 * 1000) },
+    { name: 'a state without a tool', state: () => createToken('U1', 'oauth_state', 60 * 1000) },
+    { name: 'a state signed with another secret', state: () => createToken('U1', 'oauth_state', 60 * 1000, { integrationId: 'github' }, 'other') },
+    { name: 'garbage', state: () => 'not-a-token' },
+    { name: 'an empty state', state: () => '' },
+  ])('rejects $name', ({ state }) => {
+    expect(verifyOAuthState(state())).toBeNull();
+  });
+});
+
+describe('Composio callback', () => {
+  let service: ConnectionService;
+
+  const request = (state: string | null, userId: string | null = 'U1') => {
+    const url = state === null ? `${BASE_URL}/api/composio/callback` : oauthCallbackUrl(BASE_URL, state);
+    const session = userId ? createToken(userId, 'session', 60 * 60 * 1000) : null;
+    return new NextRequest(url, { headers: session ? { cookie: `${SESSION_COOKIE}=${session}` } : {} });
+  };
+
+  beforeEach(async () => {
+    vi.stubEnv('GITHUB_AUTH_CONFIG_ID', 'ac_github');
+    service = createFakeConnectionService();
+    setConnectionService(service);
+    setAgentProfileStore(createInMemoryAgentProfileStore());
+    await getAgentProfileStore().create('U1', { name: 'jane', displayName: 'Jane' });
+  });
+
+  afterEach(() => {
+    setConnectionService(null);
+    setAgentProfileStore(null);
+  });
+
+  it.each([
+    { name: 'no state', state: () => null },
+    { name: 'a forged state', state: () => 'forged.state' },
+    { name: 'a state another user started', state: () => createOAuthState('U2', 'github') },
+  ])('refuses to finish a flow with $name', async ({ state }) => {
+    const listConnections = vi.spyOn(service, 'listConnections');
+
+    const response = await callback(request(state()));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('"error":"invalid_state"');
+    expect(listConnections).not.toHaveBeenCalled();
+    expect((await getAgentProfileStore().get('U1'))?.connections).toBeUndefined();
+  });
+
+  it('sends a signed-out user back to the setup page', async () => {
+    const response = await callback(request(createOAuthState('U1', 'github'), null));
+
+    expect(response.headers.get('location')).toBe(`${BASE_URL}/setup?error=link_expired`);
+  });
+
+  it('records the connection the flow created', async () => {
+    const state = createOAuthState('U1', 'github');
+    await service.initiate('U1', 'github');
+
+    const response = await callback(request(state));
+
+    expect(await response.text()).toContain('"success":true');
+    expect((await getAgentProfileStore().get('U1'))?.connections).toMatchObject({ github: { status: 'ACTIVE' } });
+  });
+});
@@ -0,0 +1,61 @@
+// lib/auth/oauth-state.ts
+// Signed `state` for a tool's OAuth round trip, so the callback only accepts flows this user started
+
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { IntegrationId } from '@/lib/composio/integrations';
+import { createToken, readToken } from './token';
+
+// Connection request ID from connect, read back by the callback to wait on that exact request
+const OAUTH_REQUEST_COOKIE = 'doppel_oauth_request';
+const CALLBACK_PATH = '/api/composio/callback';
+// Long enough to sign in to the tool, short enough that a leaked URL is useless soon after
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface OAuthState {
+  userId: string;
+  integrationId: IntegrationId;
+  // Epoch ms; the new connection must have been created after this
+  issuedAt: number;
+}
+
+export function createOAuthState(userId: string, integrationId: IntegrationId): string {
+  // The nonce makes every state unique even for repeated attempts within a second
+  return createToken(userId, 'oauth_state', OAUTH_STATE_TTL_MS, {
+    integrationId,
+    nonce: randomBytes(12).toString('base64url'),
+  });
+}
+
+export function verifyOAuthState(state: string): OAuthState | null {
+  const token = readToken(state, 'oauth_state');
+  if (!token?.claims.integrationId) return null;
+  return {
+    userId: token.userId,
+    integrationId: token.claims.integrationId as IntegrationId,
+    issuedAt: token.issuedAt,
+  };
+}
+
+export function setOAuthRequestCookie(response: NextResponse, requestId: string): void {
+  response.cookies.set(OAUTH_REQUEST_COOKIE, requestId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: CALLBACK_PATH,
+    maxAge: OAUTH_STATE_TTL_MS / 1000,
+  });
+}
+
+export function getOAuthRequestId(request: NextRequest): string | null {
+  return request.cookies.get(OAUTH_REQUEST_COOKIE)?.value || null;
+}
+
+export function clearOAuthRequestCookie(response: NextResponse): void {
+  response.cookies.set(OAUTH_REQUEST_COOKIE, '', { path: CALLBACK_PATH, maxAge: 0 });
+}
+
+// Callback URL carrying the signed state through the provider's redirect
+export function oauthCallbackUrl(baseUrl: string, state: string): string {
+  return `${baseUrl}${CALLBACK_PATH}?state=${encodeURIComponent(state)}`;
+}
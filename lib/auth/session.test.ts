@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSetupLink, getSessionUserId, SESSION_COOKIE, setSessionCookie, verifySetupToken } from './session';
+import { createToken } from './token';
+
+const withCookie = (value: string) =>
+  new NextRequest('https://doppel.test/api/agents', { headers: { cookie: `${SESSION_COOKIE}=${value}` } });
+
+describe('setup sessions', () => {
+  beforeEach(() => {
+    vi.stubEnv('SESSION_SECRET', 'session-secret');
+    vi.stubEnv('NEXT_PUBLIC_URL', 'https://doppel.test');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('signs in whoever the setup link was made for, for 15 minutes', () => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    const link = new URL(createSetupLink('U1'));
+    const token = link.searchParams.get('token')!;
+
+    expect(link.pathname).toBe('/api/auth/setup');
+    expect(verifySetupToken(token)).toBe('U1');
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    expect(verifySetupToken(token)).toBeNull();
+  });
+
+  it('reads the user back from the session cookie', () => {
+    const response = NextResponse.json({});
+    setSessionCookie(response, 'U1');
+    const cookie = response.cookies.get(SESSION_COOKIE)!;
+
+    expect(cookie).toMatchObject({ httpOnly: true, sameSite: 'lax' });
+    expect(getSessionUserId(withCookie(cookie.value))).toBe('U1');
+  });
+
+  it('does not accept a setup token as the session cookie, or no cookie at all', () => {
+    expect(getSessionUserId(withCookie(createToken('U1', 'setup', 60 * 1000)))).toBeNull();
+    expect(getSessionUserId(new NextRequest('https://doppel.test/api/agents'))).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+// lib/auth/session.ts
+// Who is using the setup page: a Slack link signs them in, a cookie keeps them signed in
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createToken, verifyToken } from './token';
+
+export const SESSION_COOKIE = 'doppel_session';
+// Setup links are posted ephemerally, but still shouldn't be usable for long
+const SETUP_TOKEN_TTL_MS = 15 * 60 * 1000;
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Link for the /doppel setup reply; opening it starts a session for `userId`
+export function createSetupLink(userId: string): string {
+  const token = createToken(userId, 'setup', SETUP_TOKEN_TTL_MS);
+  return `${process.env.NEXT_PUBLIC_URL}/api/auth/setup?token=${encodeURIComponent(token)}`;
+}
+
+export function verifySetupToken(token: string): string | null {
+  return verifyToken(token, 'setup');
+}
+
+export function setSessionCookie(response: NextResponse, userId: string): void {
+  response.cookies.set(SESSION_COOKIE, createToken(userId, 'session', SESSION_TTL_MS), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax so the cookie is still sent when the OAuth provider redirects back to the callback
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+export function getSessionUserId(request: NextRequest): string | null {
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+  return cookie ? verifyToken(cookie, 'session') : null;
+}
+
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Not signed in. Run /doppel setup in Slack to get a new link.' },
+    { status: 401 }
+  );
+}
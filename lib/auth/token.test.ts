@@ -0,0 +1,57 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { createToken, MissingSessionSecretError, readToken, verifyToken } from './token';
+
+const SECRET = 'session-secret';
+const NOW = 1_700_000_000_000;
+const MINUTE = 60 * 1000;
+
+const token = (overrides: { ttlMs?: number; claims?: Record<string, string> } = {}) =>
+  createToken('U1', 'setup', overrides.ttlMs ?? 15 * MINUTE, overrides.claims, SECRET, NOW);
+
+// Flip one character of the token's signature or payload part
+const tamper = (value: string, part: 0 | 1) => {
+  const parts = value.split('.');
+  parts[part] = (parts[part][0] === 'A' ? 'B' : 'A') + parts[part].slice(1);
+  return parts.join('.');
+};
+
+describe('signed tokens', () => {
+  it('round-trips the user ID and claims until the token expires', () => {
+    const value = token({ claims: { toolkit: 'github' } });
+
+    expect(verifyToken(value, 'setup', SECRET, NOW)).toBe('U1');
+    expect(readToken(value, 'setup', SECRET, NOW + 15 * MINUTE - 1000)).toEqual({
+      userId: 'U1',
+      claims: { toolkit: 'github' },
+      issuedAt: NOW,
+    });
+  });
+
+  it.each([
+    { name: 'expired', value: () => token(), now: NOW + 15 * MINUTE },
+    { name: 'tampered signature', value: () => tamper(token(), 1), now: NOW },
+    { name: 'tampered payload', value: () => tamper(token(), 0), now: NOW },
+    { name: 'signed with another secret', value: () => createToken('U1', 'setup', MINUTE, {}, 'other', NOW), now: NOW },
+    { name: 'meant for another purpose', value: () => createToken('U1', 'session', MINUTE, {}, SECRET, NOW), now: NOW },
+    { name: 'truncated signature', value: () => token().slice(0, -2), now: NOW },
+    { name: 'no signature', value: () => token().split('.')[0], now: NOW },
+    { name: 'extra part', value: () => `${token()}.x`, now: NOW },
+    { name: 'empty', value: () => '', now: NOW },
+    { name: 'not JSON', value: () => signed('not json'), now: NOW },
+    { name: 'no user ID', value: () => signed(JSON.stringify({ purpose: 'setup', iat: 0, exp: NOW })), now: NOW },
+  ])('rejects a token that is $name', ({ value, now }) => {
+    expect(verifyToken(value(), 'setup', SECRET, now)).toBeNull();
+  });
+
+  it('verifies nothing without a secret, and refuses to sign', () => {
+    expect(verifyToken(token(), 'setup', '', NOW)).toBeNull();
+    expect(() => createToken('U1', 'setup', MINUTE, {}, '', NOW)).toThrow(MissingSessionSecretError);
+  });
+});
+
+// A correctly signed token around an arbitrary payload
+function signed(payload: string): string {
+  const data = Buffer.from(payload).toString('base64url');
+  return `${data}.${createHmac('sha256', SECRET).update(data).digest('base64url')}`;
+}
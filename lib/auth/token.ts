@@ -0,0 +1,90 @@
+// lib/auth/token.ts
+// Signed, expiring tokens that carry a Slack user ID: base64url(payload).base64url(HMAC-SHA256)
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// 'setup' tokens go in the link Slack shows the user; 'session' tokens live in the session cookie;
+// 'oauth_state' tokens round-trip through a tool's OAuth flow
+export type TokenPurpose = 'setup' | 'session' | 'oauth_state';
+
+interface TokenPayload {
+  sub: string;
+  purpose: TokenPurpose;
+  // Epoch seconds
+  iat: number;
+  exp: number;
+  // Extra purpose-specific values
+  claims?: Record<string, string>;
+}
+
+export interface VerifiedToken {
+  userId: string;
+  claims: Record<string, string>;
+  // Epoch ms
+  issuedAt: number;
+}
+
+export class MissingSessionSecretError extends Error {
+  constructor() {
+    super('SESSION_SECRET is not set');
+    this.name = 'MissingSessionSecretError';
+  }
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+export function createToken(
+  userId: string,
+  purpose: TokenPurpose,
+  ttlMs: number,
+  claims: Record<string, string> = {},
+  secret: string | undefined = process.env.SESSION_SECRET,
+  now: number = Date.now()
+): string {
+  if (!secret) throw new MissingSessionSecretError();
+  const payload: TokenPayload = {
+    sub: userId,
+    purpose,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor((now + ttlMs) / 1000),
+    ...(Object.keys(claims).length > 0 && { claims }),
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data, secret)}`;
+}
+
+// The user ID the token was issued for, or null if it is forged, expired or meant for something else
+export function verifyToken(
+  token: string,
+  purpose: TokenPurpose,
+  secret: string | undefined = process.env.SESSION_SECRET,
+  now: number = Date.now()
+): string | null {
+  return readToken(token, purpose, secret, now)?.userId ?? null;
+}
+
+// Like verifyToken, but also returns the token's claims
+export function readToken(
+  token: string,
+  purpose: TokenPurpose,
+  secret: string | undefined = process.env.SESSION_SECRET,
+  now: number = Date.now()
+): VerifiedToken | null {
+  if (!secret) return null;
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(data, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as TokenPayload;
+    if (payload.purpose !== purpose || typeof payload.sub !== 'string' || payload.exp * 1000 <= now) return null;
+    return { userId: payload.sub, claims: payload.claims ?? {}, issuedAt: payload.iat * 1000 };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,15 @@
+// lib/composio/client.ts
+// Lazily constructed Composio client shared by server-side modules
+
+import { Composio } from '@composio/core';
+
+let composio: Composio | null = null;
+
+export function getComposio(): Composio {
+  if (!composio) {
+    composio = new Composio({
+      apiKey: process.env.COMPOSIO_API_KEY!,
+    });
+  }
+  return composio;
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createInMemoryAgentProfileStore, getAgentProfileStore, setAgentProfileStore } from '@/lib/agents/store';
+import { forgetConnection, recordConnection, recordFetchResults } from './connection-state';
+
+const USER = 'U1';
+
+describe('stored connections', () => {
+  beforeEach(async () => {
+    setAgentProfileStore(createInMemoryAgentProfileStore());
+    await getAgentProfileStore().create(USER, { name: 'jane', displayName: 'Jane' });
+  });
+
+  afterEach(() => {
+    setAgentProfileStore(null);
+  });
+
+  it('keeps every toolkit when updates land at the same time', async () => {
+    await Promise.all([
+      recordConnection(USER, { id: 'ca_cal', integrationId: 'googlecalendar', authConfigId: 'ac_cal', status: 'ACTIVE' }),
+      recordConnection(USER, { id: 'ca_slack', integrationId: 'slack', authConfigId: 'ac_slack', status: 'ACTIVE' }),
+      recordConnection(USER, { id: 'ca_linear', integrationId: 'linear', authConfigId: 'ac_linear', status: 'INITIATED' }),
+    ]);
+
+    const connections = (await getAgentProfileStore().get(USER))?.connections;
+    expect(connections).toMatchObject({
+      googlecalendar: { connectionId: 'ca_cal', status: 'ACTIVE' },
+      slack: { connectionId: 'ca_slack', status: 'ACTIVE' },
+      linear: { connectionId: 'ca_linear', status: 'INITIATED' },
+    });
+  });
+
+  it('forgets only the disconnected toolkit while another is recorded', async () => {
+    await recordConnection(USER, { id: 'ca_cal', integrationId: 'googlecalendar', authConfigId: 'ac_cal', status: 'ACTIVE' });
+
+    await Promise.all([
+      forgetConnection(USER, 'ca_cal'),
+      recordConnection(USER, { id: 'ca_slack', integrationId: 'slack', authConfigId: 'ac_slack', status: 'ACTIVE' }),
+    ]);
+
+    const connections = (await getAgentProfileStore().get(USER))?.connections;
+    expect(connections).toEqual({ slack: expect.objectContaining({ connectionId: 'ca_slack' }) });
+  });
+
+  it('keeps a connection recorded while fetch results are saved', async () => {
+    await recordConnection(USER, { id: 'ca_cal', integrationId: 'googlecalendar', authConfigId: 'ac_cal', status: 'ACTIVE' });
+
+    await Promise.all([
+      recordFetchResults(USER, [{ source: 'calendar', error: 'token expired' }]),
+      recordConnection(USER, { id: 'ca_slack', integrationId: 'slack', authConfigId: 'ac_slack', status: 'ACTIVE' }),
+    ]);
+
+    const connections = (await getAgentProfileStore().get(USER))?.connections;
+    expect(connections).toMatchObject({
+      googlecalendar: { connectionId: 'ca_cal', lastError: 'token expired' },
+      slack: { connectionId: 'ca_slack' },
+    });
+  });
+});
@@ -0,0 +1,265 @@
+// lib/composio/connection-state.ts
+// Each owner's connections as last reported by Composio, kept in the profile store so pages don't poll Composio
+
+import { getAgentProfileStore } from '@/lib/agents/store';
+import type { AgentProfile, StoredConnection } from '@/lib/agents/types';
+import { createComposioConnectors } from '@/lib/context/composio';
+import type { ContextSource } from '@/lib/context/types';
+import { logger } from '@/lib/logger';
+import { DEFAULT_PRIVACY_SETTINGS } from '@/lib/privacy/settings';
+import { slack } from '@/lib/slack/client';
+import { getConnectionService, type Connection } from './connections';
+import { getIntegration, INTEGRATIONS, type Integration, type IntegrationId } from './integrations';
+
+type StoredConnections = NonNullable<AgentProfile['connections']>;
+
+// How one tool's connection is doing, as the setup page shows it
+export type ConnectionState = 'connected' | 'needs_reauth' | 'pending' | 'error' | 'not_connected';
+
+export interface ToolHealth {
+  state: ConnectionState;
+  connectionId: string | null;
+  // Composio status behind the state
+  status: string | null;
+  // ISO 8601 time of the last successful data fetch
+  lastFetchAt: string | null;
+  lastError: string | null;
+}
+
+// Summary the setup page and /doppel status use
+export interface ConnectionStatus {
+  // Names of tools with an ACTIVE connection
+  connectedTools: string[];
+  // Tool name -> Composio connected account ID, for ACTIVE connections
+  connectionIds: Record<string, string>;
+  tools: Record<IntegrationId, ToolHealth>;
+}
+
+export interface FetchTestResult {
+  ok: boolean;
+  itemCount: number;
+  error?: string;
+}
+
+export type ConnectionEventType = 'created' | 'expired' | 'revoked';
+
+export interface ConnectionEvent {
+  type: ConnectionEventType;
+  // Composio user ID, which is the owner's Slack user ID
+  userId: string;
+  connection: Connection;
+}
+
+function isBroken(status: string): boolean {
+  return status === 'EXPIRED' || status === 'REVOKED' || status === 'FAILED';
+}
+
+// Keeps the fetch history while it's still the same account
+function storedConnection(connection: Connection, previous?: StoredConnection): StoredConnection {
+  const sameAccount = previous?.connectionId === connection.id;
+  return {
+    connectionId: connection.id,
+    status: connection.status,
+    ...(sameAccount && previous.lastFetchAt && { lastFetchAt: previous.lastFetchAt }),
+    ...(sameAccount && previous.lastError && { lastError: previous.lastError }),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function connectionState(stored: StoredConnection | undefined): ConnectionState {
+  if (!stored) return 'not_connected';
+  if (stored.status === 'ACTIVE') return stored.lastError ? 'error' : 'connected';
+  if (isBroken(stored.status)) return 'needs_reauth';
+  if (stored.status === 'INITIATED' || stored.status === 'INITIALIZING') return 'pending';
+  return 'error';
+}
+
+function toolHealth(stored: StoredConnection | undefined): ToolHealth {
+  return {
+    state: connectionState(stored),
+    connectionId: stored?.connectionId ?? null,
+    status: stored?.status ?? null,
+    lastFetchAt: stored?.lastFetchAt ?? null,
+    lastError: stored?.lastError ?? null,
+  };
+}
+
+function summarize(connections: StoredConnections): ConnectionStatus {
+  const connectionIds: Record<string, string> = {};
+  const tools = {} as Record<IntegrationId, ToolHealth>;
+  for (const integration of INTEGRATIONS) {
+    const stored = connections[integration.id];
+    if (stored?.status === 'ACTIVE') connectionIds[integration.name] = stored.connectionId;
+    tools[integration.id] = toolHealth(stored);
+  }
+  return { connectedTools: Object.keys(connectionIds), connectionIds, tools };
+}
+
+// Apply `change` to a copy of the stored connections and save it in one store update, so a webhook,
+// the OAuth callback and fetch results landing at the same time each keep the others' changes.
+// Null when the user has no profile.
+async function updateConnections<R>(
+  userId: string,
+  change: (connections: StoredConnections, profile: AgentProfile) => R
+): Promise<{ result: R; connections: StoredConnections } | null> {
+  let outcome: { result: R; connections: StoredConnections } | null = null;
+  await getAgentProfileStore().modify(userId, (profile) => {
+    const connections: StoredConnections = { ...profile.connections };
+    outcome = { result: change(connections, profile), connections };
+    return { connections };
+  });
+  return outcome;
+}
+
+// Replace the stored state with Composio's list, preferring an ACTIVE account per integration
+export async function syncConnections(userId: string): Promise<StoredConnections> {
+  const listed = await getConnectionService().listConnections(userId);
+  const updated = await updateConnections(userId, (connections, profile) => {
+    const previous = profile.connections ?? {};
+    for (const key of Object.keys(connections) as IntegrationId[]) {
+      delete connections[key];
+    }
+    for (const connection of listed) {
+      if (!connection.integrationId) continue;
+      const current = connections[connection.integrationId];
+      if (!current || (current.status !== 'ACTIVE' && connection.status === 'ACTIVE')) {
+        connections[connection.integrationId] = storedConnection(connection, previous[connection.integrationId]);
+      }
+    }
+  });
+  const connections = updated?.connections ?? {};
+  logger.composio.debug('Synced connections', { userId, connections });
+  return connections;
+}
+
+// Stored state, synced from Composio the first time or when `refresh` is set
+export async function getConnectionStatus(userId: string, options: { refresh?: boolean } = {}): Promise<ConnectionStatus> {
+  const profile = await getAgentProfileStore().get(userId);
+  const connections = profile?.connections && !options.refresh
+    ? profile.connections
+    : await syncConnections(userId);
+  return summarize(connections);
+}
+
+// Record a connection we saw directly, e.g. at the end of the OAuth callback
+export async function recordConnection(userId: string, connection: Connection): Promise<void> {
+  const { integrationId } = connection;
+  if (!integrationId) return;
+  await updateConnections(userId, (connections) => {
+    connections[integrationId] = storedConnection(connection, connections[integrationId]);
+  });
+}
+
+// Note which sources the agent could read from, so broken-but-ACTIVE connections show up.
+// `error` is unset for sources that were read successfully.
+export async function recordFetchResults(
+  userId: string,
+  results: Array<{ source: ContextSource; error?: string }>
+): Promise<void> {
+  const now = new Date().toISOString();
+  await updateConnections(userId, (connections) => {
+    for (const result of results) {
+      const integration = INTEGRATIONS.find((item) => item.source === result.source);
+      const stored = integration && connections[integration.id];
+      if (!integration || !stored) continue;
+      connections[integration.id] = result.error
+        ? { ...stored, lastError: result.error, updatedAt: now }
+        : { ...stored, lastFetchAt: now, lastError: undefined, updatedAt: now };
+    }
+  });
+}
+
+// Read once through each connection (or just `integrationIds`) to confirm it can actually get data
+export async function testConnections(
+  userId: string,
+  integrationIds?: IntegrationId[]
+): Promise<Partial<Record<IntegrationId, FetchTestResult>>> {
+  const profile = await getAgentProfileStore().get(userId);
+  const targets = INTEGRATIONS.filter((integration) =>
+    integrationIds ? integrationIds.includes(integration.id) : profile?.connections?.[integration.id]
+  );
+  const connectors = createComposioConnectors();
+
+  const results: Partial<Record<IntegrationId, FetchTestResult>> = {};
+  await Promise.all(targets.map(async (integration) => {
+    const connector = connectors.find((item) => item.source === integration.source);
+    if (!connector) {
+      results[integration.id] = { ok: false, itemCount: 0, error: 'No connector for this tool' };
+      return;
+    }
+    try {
+      const items = await connector.fetch(userId);
+      results[integration.id] = { ok: true, itemCount: items.length };
+    } catch (error) {
+      results[integration.id] = { ok: false, itemCount: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+
+  await recordFetchResults(userId, targets.map((integration) => ({
+    source: integration.source,
+    error: results[integration.id]?.error,
+  })));
+  logger.composio.info('Tested connections', { userId, results });
+  return results;
+}
+
+export async function forgetConnection(userId: string, connectionId: string): Promise<void> {
+  await updateConnections(userId, (connections) => {
+    for (const [key, stored] of Object.entries(connections) as Array<[IntegrationId, StoredConnection | undefined]>) {
+      if (stored?.connectionId === connectionId) delete connections[key];
+    }
+  });
+}
+
+function brokenSourceText(integration: Integration, type: ConnectionEventType): string {
+  const what = type === 'revoked' ? 'was revoked' : 'expired';
+  return `⚠️ Your ${integration.name} connection ${what}, so your agent can no longer see: ` +
+    `${integration.capabilities.join(', ').toLowerCase()}. Run \`/doppel setup\` to reconnect it.`;
+}
+
+// Apply a lifecycle event from the webhook, and DM the owner when a source their agent uses breaks
+export async function handleConnectionEvent(event: ConnectionEvent): Promise<void> {
+  const { userId, connection } = event;
+  const integration = connection.integrationId ? getIntegration(connection.integrationId) : undefined;
+  if (!integration) {
+    logger.composio.info('Ignoring event for unknown auth config', { userId, authConfigId: connection.authConfigId });
+    return;
+  }
+
+  // Decide against the state being replaced, inside the same update
+  const updated = await updateConnections(userId, (connections, profile) => {
+    const previous = connections[integration.id];
+    // An old account going away after the owner reconnected doesn't change anything
+    if (event.type !== 'created' && previous && previous.connectionId !== connection.id) {
+      return { replaced: true, previous, profile };
+    }
+    connections[integration.id] = storedConnection(connection, previous);
+    return { replaced: false, previous, profile };
+  });
+  if (!updated) {
+    logger.composio.info('Ignoring event for user without a profile', { userId, type: event.type });
+    return;
+  }
+  const { replaced, previous, profile } = updated.result;
+  if (replaced) {
+    logger.composio.info('Ignoring event for replaced connection', { userId, connectionId: connection.id });
+    return;
+  }
+
+  logger.composio.info('Recorded connection event', {
+    userId,
+    type: event.type,
+    integrationId: integration.id,
+    status: connection.status,
+  });
+
+  // Only tell the owner once, and only about sources the agent is allowed to use
+  const hidden = (profile.privacy ?? DEFAULT_PRIVACY_SETTINGS).hiddenSources.includes(integration.source);
+  if (!isBroken(connection.status) || (previous && isBroken(previous.status)) || hidden) return;
+
+  try {
+    await slack.chat.postMessage({ channel: userId, text: brokenSourceText(integration, event.type) });
+  } catch (error) {
+    logger.composio.error('Failed to notify owner about broken connection', error as Error, { userId, integrationId: integration.id });
+  }
+}
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFakeConnectionService, findActiveConnection, normalizeConnection, setConnectionService } from './connections';
+
+describe('fake connection service', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setConnectionService(null);
+  });
+
+  it('connects under the integration\'s configured auth config', async () => {
+    vi.stubEnv('SLACK_AUTH_CONFIG_ID', 'ac_slack');
+    const service = createFakeConnectionService();
+    setConnectionService(service);
+
+    const request = await service.initiate('U1', 'slack');
+
+    expect(await service.waitForConnection(request.id, 60)).toMatchObject({ integrationId: 'slack', authConfigId: 'ac_slack', status: 'ACTIVE' });
+    expect(await findActiveConnection('U1', 'slack')).toMatchObject({ id: request.id });
+  });
+
+  it('maps its connections back to their integration like a Composio record', async () => {
+    vi.stubEnv('LINEAR_AUTH_CONFIG_ID', 'ac_linear');
+    const service = createFakeConnectionService();
+
+    const request = await service.initiate('U1', 'linear');
+    const [connection] = await service.listConnections('U1');
+
+    expect(normalizeConnection({ id: request.id, authConfigId: connection.authConfigId, status: 'ACTIVE' })).toMatchObject({ integrationId: 'linear' });
+  });
+
+  it('refuses an integration without an auth config', async () => {
+    vi.stubEnv('GITHUB_AUTH_CONFIG_ID', '');
+    vi.stubEnv('NEXT_PUBLIC_GITHUB_AUTH_CONFIG_ID', '');
+
+    await expect(createFakeConnectionService().initiate('U1', 'github')).rejects.toThrow('No auth config found for github');
+  });
+});
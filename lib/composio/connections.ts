@@ -0,0 +1,211 @@
+// lib/composio/connections.ts
+// Users' Composio connected accounts, normalized into one Connection type
+
+import { logger } from '@/lib/logger';
+import { getComposio } from './client';
+import { getIntegration, INTEGRATIONS, type Integration, type IntegrationId } from './integrations';
+
+export interface Connection {
+  id: string;
+  // Null when the account belongs to an auth config this app doesn't know about
+  integrationId: IntegrationId | null;
+  authConfigId: string | null;
+  // Composio status, e.g. ACTIVE, INITIATED, EXPIRED, FAILED
+  status: string;
+  createdAt?: string;
+}
+
+export interface ConnectionRequest {
+  id: string;
+  redirectUrl: string | null;
+}
+
+export interface InitiateOptions {
+  // Where the provider sends the user back after OAuth
+  callbackUrl?: string;
+  // Start a new account even if one exists, e.g. to replace an expired one
+  allowMultiple?: boolean;
+}
+
+export interface ConnectionService {
+  listConnections(userId: string): Promise<Connection[]>;
+  initiate(userId: string, integrationId: IntegrationId, options?: InitiateOptions): Promise<ConnectionRequest>;
+  // Resolves once the user finishes OAuth; null if it didn't complete in time
+  waitForConnection(requestId: string, timeoutSeconds: number): Promise<Connection | null>;
+  deleteConnection(connectionId: string): Promise<void>;
+}
+
+// Thrown by initiate when the user already has an account for the auth config
+export class ConnectionExistsError extends Error {
+  constructor(integrationId: IntegrationId) {
+    super(`A connection for ${integrationId} already exists`);
+    this.name = 'ConnectionExistsError';
+  }
+}
+
+export function getAuthConfigId(integration: Integration): string {
+  return process.env[`NEXT_PUBLIC_${integration.authConfigEnv}`] || process.env[integration.authConfigEnv] || '';
+}
+
+function integrationForAuthConfig(authConfigId: string | null): IntegrationId | null {
+  if (!authConfigId) return null;
+  return INTEGRATIONS.find((integration) => getAuthConfigId(integration) === authConfigId)?.id ?? null;
+}
+
+type Raw = Record<string, unknown>;
+
+function asRecord(value: unknown): Raw | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Raw : undefined;
+}
+
+// Composio has returned the auth config as authConfigId, auth_config_id, authConfig.id and auth_config.id
+function authConfigIdOf(conn: Raw): string | null {
+  const nested = asRecord(conn.authConfig) ?? asRecord(conn.auth_config);
+  const id = conn.authConfigId ?? conn.auth_config_id ?? nested?.id ?? nested?.auth_config_id;
+  return typeof id === 'string' && id ? id : null;
+}
+
+export function normalizeConnection(value: unknown): Connection | null {
+  const conn = asRecord(value);
+  if (!conn) return null;
+  const id = conn.id ?? conn.connected_account_id ?? conn.nanoid;
+  if (typeof id !== 'string' || !id) return null;
+  const authConfigId = authConfigIdOf(conn);
+  const createdAt = conn.createdAt ?? conn.created_at;
+  return {
+    id,
+    integrationId: integrationForAuthConfig(authConfigId),
+    authConfigId,
+    status: typeof conn.status === 'string' ? conn.status : 'UNKNOWN',
+    ...(typeof createdAt === 'string' && { createdAt }),
+  };
+}
+
+// Handle different response structures - could be array or object with items
+function listItems(response: unknown): unknown[] {
+  if (Array.isArray(response)) return response;
+  const items = asRecord(response)?.items;
+  return Array.isArray(items) ? items : [];
+}
+
+export function createComposioConnectionService(): ConnectionService {
+  return {
+    async listConnections(userId) {
+      const composio = getComposio();
+      const items = listItems(await composio.connectedAccounts.list({ userIds: [userId] }));
+      const connections: Connection[] = [];
+      for (const item of items) {
+        let connection = normalizeConnection(item);
+        if (!connection) continue;
+        // Some list responses omit the auth config; the full record has it
+        if (!connection.authConfigId) {
+          try {
+            connection = normalizeConnection(await composio.connectedAccounts.get(connection.id)) ?? connection;
+          } catch (error) {
+            logger.composio.error('Error getting connection details', error as Error, { connectionId: connection.id });
+          }
+        }
+        connections.push(connection);
+      }
+      return connections;
+    },
+    async initiate(userId, integrationId, options = {}) {
+      const integration = getIntegration(integrationId);
+      const authConfigId = integration ? getAuthConfigId(integration) : '';
+      if (!authConfigId) {
+        throw new Error(`No auth config found for ${integrationId}`);
+      }
+      try {
+        const request = await getComposio().connectedAccounts.initiate(userId, authConfigId, {
+          ...(options.callbackUrl && { callbackUrl: options.callbackUrl }),
+          ...(options.allowMultiple && { allowMultiple: true }),
+        });
+        return { id: request.id, redirectUrl: request.redirectUrl ?? null };
+      } catch (error) {
+        const { code, message } = error as { code?: string; message?: string };
+        if (code === 'TS-SDK::MULTIPLE_CONNECTED_ACCOUNTS' || message?.includes('Multiple connected accounts')) {
+          throw new ConnectionExistsError(integrationId);
+        }
+        throw error;
+      }
+    },
+    async waitForConnection(requestId, timeoutSeconds) {
+      const account = await getComposio().connectedAccounts.waitForConnection(requestId, timeoutSeconds);
+      return normalizeConnection(account);
+    },
+    async deleteConnection(connectionId) {
+      await getComposio().connectedAccounts.delete(connectionId);
+    },
+  };
+}
+
+// In-memory stand-in for tests and local development without Composio.
+// initiate() connects immediately and returns no redirect URL. Like the real service it needs the
+// integration's auth config, so connections carry the ID the callback checks them against.
+export function createFakeConnectionService(seed: Record<string, Connection[]> = {}): ConnectionService {
+  const byUser = new Map(Object.entries(seed).map(([userId, connections]) => [userId, [...connections]]));
+  let nextId = 1;
+  return {
+    async listConnections(userId) {
+      return [...(byUser.get(userId) ?? [])];
+    },
+    async initiate(userId, integrationId, options = {}) {
+      const integration = getIntegration(integrationId);
+      const authConfigId = integration ? getAuthConfigId(integration) : '';
+      if (!authConfigId) {
+        throw new Error(`No auth config found for ${integrationId}`);
+      }
+      const connections = byUser.get(userId) ?? [];
+      if (!options.allowMultiple && connections.some((connection) => connection.integrationId === integrationId && connection.status === 'ACTIVE')) {
+        throw new ConnectionExistsError(integrationId);
+      }
+      const connection: Connection = {
+        id: `fake_${nextId++}`,
+        integrationId,
+        authConfigId,
+        status: 'ACTIVE',
+        createdAt: new Date().toISOString(),
+      };
+      byUser.set(userId, [...connections, connection]);
+      return { id: connection.id, redirectUrl: null };
+    },
+    async waitForConnection(requestId) {
+      for (const connections of byUser.values()) {
+        const connection = connections.find((item) => item.id === requestId);
+        if (connection) return connection;
+      }
+      return null;
+    },
+    async deleteConnection(connectionId) {
+      for (const [userId, connections] of byUser) {
+        byUser.set(userId, connections.filter((connection) => connection.id !== connectionId));
+      }
+    },
+  };
+}
+
+let service: ConnectionService | null = null;
+
+export function getConnectionService(): ConnectionService {
+  if (!service) {
+    service = createComposioConnectionService();
+  }
+  return service;
+}
+
+// Swap the implementation, e.g. for the fake in tests
+export function setConnectionService(next: ConnectionService | null): void {
+  service = next;
+}
+
+// The user's ACTIVE connection for an integration, if any
+export async function findActiveConnection(userId: string, integrationId: IntegrationId): Promise<Connection | null> {
+  const connections = await getConnectionService().listConnections(userId);
+  return connections.find((connection) => connection.integrationId === integrationId && connection.status === 'ACTIVE') ?? null;
+}
+
+// Whether the connected account was created under this user, so nobody can act on someone else's
+export async function ownsConnection(userId: string, connectionId: string): Promise<boolean> {
+  const connections = await getConnectionService().listConnections(userId);
+  return connections.some((connection) => connection.id === connectionId);
+}
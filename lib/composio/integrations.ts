@@ -0,0 +1,68 @@
+// lib/composio/integrations.ts
+// Every tool a user can connect, in one place. Safe to import from client components.
+
+import type { ContextSource } from '@/lib/context/types';
+
+export type IntegrationId = 'googlecalendar' | 'slack' | 'linear' | 'github';
+
+export interface Integration {
+  id: IntegrationId;
+  // Shown on the setup page and in /doppel status
+  name: string;
+  // Composio toolkit slug
+  toolkit: string;
+  // Env var holding the Composio auth config ID (a NEXT_PUBLIC_ variant is also read)
+  authConfigEnv: string;
+  icon: string;
+  // What the agent can read once it's connected
+  capabilities: string[];
+  // Context source the connection feeds
+  source: ContextSource;
+}
+
+export const INTEGRATIONS: Integration[] = [
+  {
+    id: 'googlecalendar',
+    name: 'Google Calendar',
+    toolkit: 'GOOGLECALENDAR',
+    authConfigEnv: 'GOOGLECALENDAR_AUTH_CONFIG_ID',
+    icon: '📅',
+    capabilities: ['Meetings from the last day and the next week'],
+    source: 'calendar',
+  },
+  {
+    id: 'slack',
+    name: 'Slack',
+    toolkit: 'SLACK',
+    authConfigEnv: 'SLACK_AUTH_CONFIG_ID',
+    icon: '💬',
+    capabilities: ['Your recent messages'],
+    source: 'slack',
+  },
+  {
+    id: 'linear',
+    name: 'Linear',
+    toolkit: 'LINEAR',
+    authConfigEnv: 'LINEAR_AUTH_CONFIG_ID',
+    icon: '📋',
+    capabilities: ['Issues assigned to you'],
+    source: 'linear',
+  },
+  {
+    id: 'github',
+    name: 'GitHub',
+    toolkit: 'GITHUB',
+    authConfigEnv: 'GITHUB_AUTH_CONFIG_ID',
+    icon: '🐙',
+    capabilities: ['Open pull requests and issues involving you'],
+    source: 'github',
+  },
+];
+
+export function getIntegration(id: string): Integration | undefined {
+  return INTEGRATIONS.find((integration) => integration.id === id);
+}
+
+export function getIntegrationByName(name: string): Integration | undefined {
+  return INTEGRATIONS.find((integration) => integration.name === name);
+}
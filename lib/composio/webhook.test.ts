@@ -0,0 +1,108 @@
+import { createHmac } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseConnectionEvent, verifyComposioWebhook, type WebhookVerificationFailure } from './webhook';
+
+const KEY = Buffer.from('composio-webhook-key');
+const SECRET = `whsec_${KEY.toString('base64')}`;
+const NOW = 1_700_000_000_000;
+const BODY = '{"type":"composio.connected_account.expired"}';
+const ID = 'msg_1';
+
+const sign = (timestamp: string, key: Buffer | string = KEY, body = BODY) =>
+  createHmac('sha256', key).update(`${ID}.${timestamp}.${body}`).digest('base64');
+
+const seconds = (offset: number) => String(NOW / 1000 + offset);
+
+const headers = (signature: string | null, timestamp: string | null = seconds(0), id: string | null = ID) => {
+  const result = new Headers();
+  if (id !== null) result.set('webhook-id', id);
+  if (timestamp !== null) result.set('webhook-timestamp', timestamp);
+  if (signature !== null) result.set('webhook-signature', signature);
+  return result;
+};
+
+interface Case {
+  name: string;
+  headers: Headers;
+  secret?: string;
+  reason: WebhookVerificationFailure | null;
+}
+
+describe('verifyComposioWebhook', () => {
+  const cases: Case[] = [
+    { name: 'valid signature', headers: headers(`v1,${sign(seconds(0))}`), reason: null },
+
+    // Several signatures during secret rotation
+    { name: 'valid signature after an old one', headers: headers(`v1,${sign(seconds(0), 'old')} v1,${sign(seconds(0))}`), reason: null },
+    { name: 'valid signature before an old one', headers: headers(`v1,${sign(seconds(0))} v1,${sign(seconds(0), 'old')}`), reason: null },
+    { name: 'only old signatures', headers: headers(`v1,${sign(seconds(0), 'old')} v1,${sign(seconds(0), 'older')}`), reason: 'invalid_signature' },
+    { name: 'right signature under another version', headers: headers(`v2,${sign(seconds(0))}`), reason: 'invalid_signature' },
+    { name: 'version without a signature', headers: headers('v1,'), reason: 'invalid_signature' },
+    { name: 'truncated signature', headers: headers(`v1,${sign(seconds(0)).slice(0, -2)}`), reason: 'invalid_signature' },
+    { name: 'signed for another timestamp', headers: headers(`v1,${sign(seconds(-1))}`), reason: 'invalid_signature' },
+
+    // Secret prefix: whsec_ secrets are base64 keys, anything else is the key itself
+    { name: 'secret used as-is without the prefix', headers: headers(`v1,${sign(seconds(0), 'plain-secret')}`), secret: 'plain-secret', reason: null },
+    { name: 'prefixed secret used as raw bytes', headers: headers(`v1,${sign(seconds(0), SECRET)}`), reason: 'invalid_signature' },
+
+    // Timestamp tolerance
+    { name: '5 minutes old', headers: headers(`v1,${sign(seconds(-300))}`, seconds(-300)), reason: null },
+    { name: 'more than 5 minutes old', headers: headers(`v1,${sign(seconds(-301))}`, seconds(-301)), reason: 'stale_timestamp' },
+    { name: 'more than 5 minutes ahead', headers: headers(`v1,${sign(seconds(301))}`, seconds(301)), reason: 'stale_timestamp' },
+    { name: 'non-numeric timestamp', headers: headers(`v1,${sign('soon')}`, 'soon'), reason: 'stale_timestamp' },
+
+    // Missing headers and configuration
+    { name: 'no signature header', headers: headers(null), reason: 'missing_headers' },
+    { name: 'no timestamp header', headers: headers(`v1,${sign(seconds(0))}`, null), reason: 'missing_headers' },
+    { name: 'no id header', headers: headers(`v1,${sign(seconds(0))}`, seconds(0), null), reason: 'missing_headers' },
+    { name: 'no secret', headers: headers(`v1,${sign(seconds(0))}`), secret: '', reason: 'missing_secret' },
+  ];
+
+  it.each(cases)('$name', (testCase) => {
+    const result = verifyComposioWebhook(testCase.headers, BODY, testCase.secret ?? SECRET, NOW);
+    expect(result).toEqual(testCase.reason === null ? { ok: true } : { ok: false, reason: testCase.reason });
+  });
+});
+
+describe('parseConnectionEvent', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const event = (type: string, data: Record<string, unknown>) => parseConnectionEvent({ type, data });
+
+  it('maps the connection to its integration through the auth config', () => {
+    vi.stubEnv('GITHUB_AUTH_CONFIG_ID', 'ac_github');
+
+    expect(event('composio.connected_account.created', { id: 'ca_1', user_id: 'U1', auth_config: { id: 'ac_github' }, status: 'ACTIVE' })).toEqual({
+      type: 'created',
+      userId: 'U1',
+      connection: { id: 'ca_1', integrationId: 'github', authConfigId: 'ac_github', status: 'ACTIVE' },
+    });
+  });
+
+  it.each([
+    { type: 'composio.connected_account.expired', status: 'ACTIVE', expected: { type: 'expired', status: 'EXPIRED' } },
+    { type: 'connected_account_revoked', status: undefined, expected: { type: 'revoked', status: 'REVOKED' } },
+    { type: 'composio.connected_account.created', status: undefined, expected: { type: 'created', status: 'ACTIVE' } },
+    { type: 'composio.connected_account.created', status: 'INITIATED', expected: { type: 'created', status: 'INITIATED' } },
+  ])('reports $type as $expected.status when the payload says $status', ({ type, status, expected }) => {
+    const parsed = event(type, { id: 'ca_1', userId: 'U1', ...(status && { status }) });
+
+    expect(parsed).toMatchObject({ type: expected.type, connection: { status: expected.status } });
+  });
+
+  it('reads the user from entity_id as well', () => {
+    expect(event('composio.connected_account.expired', { nanoid: 'ca_1', entity_id: 'U1' })).toMatchObject({ userId: 'U1', connection: { id: 'ca_1' } });
+  });
+
+  it.each([
+    { name: 'a trigger event', body: { type: 'slack_receive_message', data: { id: 'ca_1', user_id: 'U1' } } },
+    { name: 'an event without data', body: { type: 'composio.connected_account.expired' } },
+    { name: 'an event without a type', body: { data: { id: 'ca_1', user_id: 'U1' } } },
+    { name: 'a connection without a user', body: { type: 'composio.connected_account.expired', data: { id: 'ca_1' } } },
+    { name: 'a connection without an id', body: { type: 'composio.connected_account.expired', data: { user_id: 'U1' } } },
+  ])('ignores $name', ({ body }) => {
+    expect(parseConnectionEvent(body)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+// lib/composio/webhook.ts
+// Composio webhook signature verification and connection lifecycle event parsing.
+// Composio signs webhooks per the Standard Webhooks spec: https://www.standardwebhooks.com
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { ConnectionEvent, ConnectionEventType } from './connection-state';
+import { normalizeConnection } from './connections';
+
+// Same replay window we allow Slack
+const MAX_REQUEST_AGE_SECONDS = 60 * 5;
+
+export type WebhookVerificationFailure =
+  | 'missing_secret'
+  | 'missing_headers'
+  | 'stale_timestamp'
+  | 'invalid_signature';
+
+export type WebhookVerificationResult =
+  | { ok: true }
+  | { ok: false; reason: WebhookVerificationFailure };
+
+// Secrets shown as "whsec_<base64>" are base64 keys; anything else is used as-is
+function secretKey(secret: string): Buffer {
+  return secret.startsWith('whsec_')
+    ? Buffer.from(secret.slice('whsec_'.length), 'base64')
+    : Buffer.from(secret);
+}
+
+export function verifyComposioWebhook(
+  headers: Headers,
+  rawBody: string,
+  secret: string | undefined = process.env.COMPOSIO_WEBHOOK_SECRET,
+  now: number = Date.now()
+): WebhookVerificationResult {
+  if (!secret) {
+    return { ok: false, reason: 'missing_secret' };
+  }
+
+  const id = headers.get('webhook-id');
+  const timestamp = headers.get('webhook-timestamp');
+  const signatures = headers.get('webhook-signature');
+  if (!id || !timestamp || !signatures) {
+    return { ok: false, reason: 'missing_headers' };
+  }
+
+  const requestTime = Number(timestamp);
+  if (!Number.isFinite(requestTime) || Math.abs(now / 1000 - requestTime) > MAX_REQUEST_AGE_SECONDS) {
+    return { ok: false, reason: 'stale_timestamp' };
+  }
+
+  const expected = Buffer.from(
+    createHmac('sha256', secretKey(secret)).update(`${id}.${timestamp}.${rawBody}`).digest('base64')
+  );
+  // The header may carry several space-separated "v1,<signature>" entries during secret rotation
+  const valid = signatures.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) return false;
+    const signatureBuffer = Buffer.from(signature);
+    return signatureBuffer.length === expected.length && timingSafeEqual(signatureBuffer, expected);
+  });
+  return valid ? { ok: true } : { ok: false, reason: 'invalid_signature' };
+}
+
+type Raw = Record<string, unknown>;
+
+// Status Composio reports for each event, used when the payload doesn't include one
+const EVENT_STATUS: Record<ConnectionEventType, string> = {
+  created: 'ACTIVE',
+  expired: 'EXPIRED',
+  revoked: 'REVOKED',
+};
+
+// Event types look like "composio.connected_account.expired"
+const EVENT_TYPE_PATTERN = /connected_account[._](created|expired|revoked)$/i;
+
+// Connection lifecycle event from a webhook body, or null for any other event (e.g. triggers)
+export function parseConnectionEvent(body: Raw): ConnectionEvent | null {
+  const match = typeof body.type === 'string' ? EVENT_TYPE_PATTERN.exec(body.type) : null;
+  const data = body.data && typeof body.data === 'object' ? body.data as Raw : null;
+  if (!match || !data) return null;
+
+  const type = match[1].toLowerCase() as ConnectionEventType;
+  const userId = data.user_id ?? data.userId ?? data.entity_id;
+  const connection = normalizeConnection(data);
+  if (typeof userId !== 'string' || !userId || !connection) return null;
+
+  // Trust the event over a status field that may predate it
+  const status = type === 'created' && connection.status !== 'UNKNOWN' ? connection.status : EVENT_STATUS[type];
+  return { type, userId, connection: { ...connection, status } };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { hideCitationMarkers, resolveCitations } from './citations';
+import type { ContextItem } from './types';
+
+const items: ContextItem[] = [
+  { id: 'linear:PROJ-1', source: 'linear', text: 'PROJ-1: Ship the importer (In Progress)', url: 'https://linear.test/PROJ-1' },
+  { id: 'calendar:ev1', source: 'calendar', text: '2026-10-19T10:00:00Z: Design review' },
+  { id: 'slack:C1:1', source: 'slack', text: '[#eng] Shipped the CSV importer', url: 'https://slack.test/p1' },
+  { id: 'github:acme/app#7', source: 'github', text: 'x'.repeat(80) },
+];
+
+describe('resolveCitations', () => {
+  it('numbers citations in the order they first appear and reuses the number for repeats', () => {
+    const cited = resolveCitations('Shipping the importer [[linear:PROJ-1]], then a review [[calendar:ev1]]. Still [[linear:PROJ-1]].', items);
+
+    expect(cited.answer).toBe('Shipping the importer [1], then a review [2]. Still [1].');
+    expect(cited.citations).toEqual([
+      { id: 'linear:PROJ-1', source: 'linear', label: 'PROJ-1: Ship the importer (In Progress)', url: 'https://linear.test/PROJ-1' },
+      { id: 'calendar:ev1', source: 'calendar', label: 'Design review' },
+    ]);
+    expect(cited.unknownIds).toEqual([]);
+  });
+
+  it('drops markers for items the agent never looked at and reports them once', () => {
+    const cited = resolveCitations('Done [[linear:PROJ-9]] and done [[linear:PROJ-9]].', items);
+
+    expect(cited.answer).toBe('Done and done.');
+    expect(cited.citations).toEqual([]);
+    expect(cited.unknownIds).toEqual(['linear:PROJ-9']);
+  });
+
+  it('labels Slack items without their channel and shortens long labels', () => {
+    const cited = resolveCitations('[[slack:C1:1]] [[github:acme/app#7]]', items);
+
+    expect(cited.citations.map((citation) => citation.label)).toEqual(['Shipped the CSV importer', `${'x'.repeat(60)}…`]);
+  });
+
+  it('leaves an answer without markers alone', () => {
+    expect(resolveCitations('  Nothing to cite.  ', items)).toEqual({ answer: 'Nothing to cite.', citations: [], unknownIds: [] });
+  });
+});
+
+describe('hideCitationMarkers', () => {
+  it('hides complete markers and one still being written', () => {
+    expect(hideCitationMarkers('Shipping [[linear:PROJ-1]] and [[cal')).toBe('Shipping and');
+  });
+});
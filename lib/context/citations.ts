@@ -0,0 +1,62 @@
+// lib/context/citations.ts
+// Inline [[item-id]] citations in answers, resolved to the context items they point at
+
+import type { ContextItem, ContextSource } from './types';
+
+const MAX_LABEL_LENGTH = 60;
+
+// Matches a complete marker, e.g. [[linear:PROJ-123]]
+const CITATION_MARKER = /\s*\[\[([^\]\s]+)\]\]/g;
+
+export interface Citation {
+  id: string;
+  source: ContextSource;
+  // Short description shown as the link text
+  label: string;
+  url?: string;
+}
+
+export interface CitedAnswer {
+  // Markers replaced with footnote numbers, e.g. "... [1]"
+  answer: string;
+  // In footnote order
+  citations: Citation[];
+  // Cited IDs that match no item the agent looked at
+  unknownIds: string[];
+}
+
+function label(item: ContextItem): string {
+  // Calendar items start with their start time and Slack items with their channel; the link doesn't need either
+  const text = (item.source === 'calendar' ? item.text.replace(/^\S+: /, '')
+    : item.source === 'slack' ? item.text.replace(/^\[#[^\]]+\] /, '')
+    : item.text).trim() || item.id;
+  return text.length > MAX_LABEL_LENGTH ? `${text.substring(0, MAX_LABEL_LENGTH)}…` : text;
+}
+
+// Replace each known marker with its footnote number and drop the rest
+export function resolveCitations(answer: string, items: ContextItem[]): CitedAnswer {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const citations: Citation[] = [];
+  const unknownIds: string[] = [];
+
+  const resolved = answer.replace(CITATION_MARKER, (_marker, id: string) => {
+    const item = byId.get(id);
+    if (!item) {
+      if (!unknownIds.includes(id)) unknownIds.push(id);
+      return '';
+    }
+    let index = citations.findIndex((citation) => citation.id === id);
+    if (index < 0) {
+      citations.push({ id, source: item.source, label: label(item), ...(item.url && { url: item.url }) });
+      index = citations.length - 1;
+    }
+    return ` [${index + 1}]`;
+  });
+
+  return { answer: resolved.trim(), citations, unknownIds };
+}
+
+// While streaming, hide markers, including one that is still being written
+export function hideCitationMarkers(text: string): string {
+  return text.replace(CITATION_MARKER, '').replace(/\s*\[\[?[^\]]*$/, '');
+}
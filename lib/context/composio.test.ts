@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeCalendarEvents, normalizeGitHubItems, normalizeLinearIssues, normalizeSlackMessages } from './composio';
+
+// Composio sometimes wraps a tool's result in `response_data`, sometimes not
+const envelopes = [
+  { name: 'bare', wrap: (data: Record<string, unknown>) => data },
+  { name: 'in response_data', wrap: (data: Record<string, unknown>) => ({ response_data: data }) },
+];
+
+describe('normalizeCalendarEvents', () => {
+  it.each(envelopes)('reads timed events $name', ({ wrap }) => {
+    const data = wrap({
+      items: [{
+        id: 'ev1',
+        summary: 'Design review',
+        start: { dateTime: '2026-10-19T10:00:00Z' },
+        end: { dateTime: '2026-10-19T11:00:00Z' },
+        htmlLink: 'https://calendar.test/ev1',
+      }],
+    });
+
+    expect(normalizeCalendarEvents(data)).toEqual([{
+      id: 'calendar:ev1',
+      source: 'calendar',
+      text: '2026-10-19T10:00:00Z: Design review',
+      timestamp: '2026-10-19T10:00:00Z',
+      endTimestamp: '2026-10-19T11:00:00Z',
+      url: 'https://calendar.test/ev1',
+      private: false,
+    }]);
+  });
+
+  it('reads all-day events from their dates', () => {
+    const [event] = normalizeCalendarEvents({
+      items: [{ id: 'ev2', summary: 'Offsite', start: { date: '2026-10-20' }, end: { date: '2026-10-21' } }],
+    });
+
+    expect(event).toMatchObject({ text: '2026-10-20: Offsite', timestamp: '2026-10-20', endTimestamp: '2026-10-21' });
+  });
+
+  it.each([
+    { visibility: 'private', private: true },
+    { visibility: 'confidential', private: true },
+    { visibility: 'default', private: false },
+    { visibility: 'public', private: false },
+  ])('marks $visibility events private: $private', ({ visibility, private: isPrivate }) => {
+    const [event] = normalizeCalendarEvents({ items: [{ id: 'ev3', summary: 'Doctor', visibility }] });
+
+    expect(event.private).toBe(isPrivate);
+  });
+
+  it('skips events without an id and names untitled ones', () => {
+    const events = normalizeCalendarEvents({ items: [{ summary: 'No id' }, { id: '' }, { id: 'ev4' }, 'junk'] });
+
+    expect(events).toEqual([expect.objectContaining({ id: 'calendar:ev4', text: '(no title)' })]);
+  });
+
+  it('returns nothing for an unexpected shape', () => {
+    expect(normalizeCalendarEvents({ items: 'none' })).toEqual([]);
+    expect(normalizeCalendarEvents({})).toEqual([]);
+  });
+});
+
+describe('normalizeSlackMessages', () => {
+  const match = (channel: Record<string, unknown>) => ({
+    messages: {
+      matches: [{ ts: '1760868000.000100', text: 'Shipped it', channel, permalink: 'https://slack.test/p1' }],
+    },
+  });
+
+  it.each(envelopes)('reads search matches $name', ({ wrap }) => {
+    expect(normalizeSlackMessages(wrap(match({ id: 'C1', name: 'eng' })))).toEqual([{
+      id: 'slack:C1:1760868000.000100',
+      source: 'slack',
+      text: '[#eng] Shipped it',
+      timestamp: '2025-10-19T10:00:00.000Z',
+      url: 'https://slack.test/p1',
+      private: false,
+    }]);
+  });
+
+  it.each([
+    { kind: 'a private channel', channel: { id: 'G1', name: 'hiring', is_private: true } },
+    { kind: 'a DM', channel: { id: 'D1', is_im: true } },
+    { kind: 'a group DM', channel: { id: 'G2', is_mpim: true } },
+  ])('marks messages in $kind private', ({ channel }) => {
+    expect(normalizeSlackMessages(match(channel))).toEqual([expect.objectContaining({ private: true })]);
+  });
+
+  it('leaves the channel name out when Slack sends none', () => {
+    const [message] = normalizeSlackMessages(match({ id: 'D1', is_im: true }));
+
+    expect(message.text).toBe('Shipped it');
+  });
+
+  it('skips messages without a ts and files those without a channel under unknown', () => {
+    const messages = normalizeSlackMessages({ messages: { matches: [{ text: 'No ts' }, { ts: '1760868000.000200', text: 'Orphan' }] } });
+
+    expect(messages).toEqual([expect.objectContaining({ id: 'slack:unknown:1760868000.000200', text: 'Orphan', private: false })]);
+  });
+});
+
+describe('normalizeLinearIssues', () => {
+  it.each(envelopes)('reads assigned issues $name', ({ wrap }) => {
+    const data = wrap({
+      data: {
+        viewer: {
+          assignedIssues: {
+            nodes: [{
+              identifier: 'PROJ-1',
+              title: 'Ship the importer',
+              url: 'https://linear.test/PROJ-1',
+              updatedAt: '2026-10-18T09:00:00Z',
+              state: { name: 'In Progress' },
+            }],
+          },
+        },
+      },
+    });
+
+    expect(normalizeLinearIssues(data)).toEqual([{
+      id: 'linear:PROJ-1',
+      source: 'linear',
+      text: 'PROJ-1: Ship the importer (In Progress)',
+      timestamp: '2026-10-18T09:00:00Z',
+      url: 'https://linear.test/PROJ-1',
+    }]);
+  });
+
+  it('skips issues without an identifier and leaves out a missing state', () => {
+    const issues = normalizeLinearIssues({
+      data: { viewer: { assignedIssues: { nodes: [{ title: 'No id' }, { identifier: 'PROJ-2', title: 'Fix login' }] } } },
+    });
+
+    expect(issues).toEqual([expect.objectContaining({ id: 'linear:PROJ-2', text: 'PROJ-2: Fix login' })]);
+  });
+});
+
+describe('normalizeGitHubItems', () => {
+  it.each(envelopes)('reads pull requests and issues $name', ({ wrap }) => {
+    const data = wrap({
+      items: [
+        { html_url: 'https://github.com/acme/app/pull/7', number: 7, title: 'Add CSV import', state: 'open', pull_request: {}, updated_at: '2026-10-18T09:00:00Z' },
+        { html_url: 'https://github.com/acme/app/issues/8', number: 8, title: 'Import fails on BOM' },
+      ],
+    });
+
+    expect(normalizeGitHubItems(data)).toEqual([
+      {
+        id: 'github:acme/app#7',
+        source: 'github',
+        text: 'PR acme/app#7: Add CSV import (open)',
+        timestamp: '2026-10-18T09:00:00Z',
+        url: 'https://github.com/acme/app/pull/7',
+      },
+      {
+        id: 'github:acme/app#8',
+        source: 'github',
+        text: 'Issue acme/app#8: Import fails on BOM (unknown)',
+        timestamp: undefined,
+        url: 'https://github.com/acme/app/issues/8',
+      },
+    ]);
+  });
+
+  it('accepts a number sent as a string', () => {
+    const [item] = normalizeGitHubItems({ items: [{ html_url: 'https://github.com/acme/app/issues/9', number: '9' }] });
+
+    expect(item.id).toBe('github:acme/app#9');
+  });
+
+  it.each([
+    { name: 'no url', item: { number: 7 } },
+    { name: 'no number', item: { html_url: 'https://github.com/acme/app/pull/7' } },
+    { name: 'a non-numeric number', item: { html_url: 'https://github.com/acme/app/pull/7', number: 'seven' } },
+    { name: 'a fractional number', item: { html_url: 'https://github.com/acme/app/pull/7', number: 7.5 } },
+    { name: 'an empty number', item: { html_url: 'https://github.com/acme/app/pull/7', number: '' } },
+  ])('skips items with $name', ({ item }) => {
+    expect(normalizeGitHubItems({ items: [item] })).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+// lib/context/composio.ts
+// Connectors that read a user's live data through their Composio connected accounts.
+// The Composio user ID is the owner's Slack user ID (see /api/composio/connect).
+
+import { getComposio } from '@/lib/composio/client';
+import type { ContextConnector, ContextItem, ContextSource } from './types';
+
+const CALENDAR_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const CALENDAR_LOOKAHEAD_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ITEMS_PER_SOURCE = 20;
+
+const LINEAR_ASSIGNED_ISSUES_QUERY = `query {
+  viewer {
+    assignedIssues(first: ${MAX_ITEMS_PER_SOURCE}, orderBy: updatedAt) {
+      nodes { identifier title url updatedAt state { name } }
+    }
+  }
+}`;
+
+type Raw = Record<string, unknown>;
+
+async function executeTool(userId: string, slug: string, args: Record<string, unknown>): Promise<Raw> {
+  const result = await getComposio().tools.execute(slug, {
+    userId,
+    arguments: args,
+    // Toolkit versions are pinned on the Composio project, not per call
+    dangerouslySkipVersionCheck: true,
+  });
+  if (!result.successful) {
+    throw new Error(`${slug} failed: ${result.error || 'unknown error'}`);
+  }
+  return result.data;
+}
+
+function asRecord(value: unknown): Raw | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Raw : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+// Positive integers such as issue numbers, also when sent as a string
+function asNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.length > 0 ? Number(value) : value;
+  return typeof number === 'number' && Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+// Walk a dotted path, unwrapping Composio's optional `response_data` envelope
+function pick(data: Raw, path: string): unknown {
+  const root = asRecord(data.response_data) ?? data;
+  return path.split('.').reduce<unknown>((value, key) => asRecord(value)?.[key], root);
+}
+
+function pickList(data: Raw, path: string): Raw[] {
+  const list = pick(data, path);
+  return Array.isArray(list) ? list.filter((item): item is Raw => !!asRecord(item)) : [];
+}
+
+export function normalizeCalendarEvents(data: Raw): ContextItem[] {
+  return pickList(data, 'items').flatMap((event) => {
+    const id = asString(event.id);
+    if (!id) return [];
+    const start = asRecord(event.start);
+    const end = asRecord(event.end);
+    const startTime = asString(start?.dateTime) ?? asString(start?.date);
+    const title = asString(event.summary) ?? '(no title)';
+    const visibility = asString(event.visibility);
+    return [{
+      id: `calendar:${id}`,
+      source: 'calendar' as const,
+      text: startTime ? `${startTime}: ${title}` : title,
+      timestamp: startTime,
+      endTimestamp: asString(end?.dateTime) ?? asString(end?.date),
+      url: asString(event.htmlLink),
+      private: visibility === 'private' || visibility === 'confidential',
+    }];
+  });
+}
+
+export function normalizeSlackMessages(data: Raw): ContextItem[] {
+  return pickList(data, 'messages.matches').flatMap((message) => {
+    const ts = asString(message.ts);
+    const channel = asRecord(message.channel);
+    if (!ts) return [];
+    const channelName = asString(channel?.name);
+    const text = asString(message.text) ?? '';
+    return [{
+      id: `slack:${asString(channel?.id) ?? 'unknown'}:${ts}`,
+      source: 'slack' as const,
+      text: channelName ? `[#${channelName}] ${text}` : text,
+      timestamp: new Date(Number(ts) * 1000).toISOString(),
+      url: asString(message.permalink),
+      private: channel?.is_private === true || channel?.is_im === true || channel?.is_mpim === true,
+    }];
+  });
+}
+
+export function normalizeLinearIssues(data: Raw): ContextItem[] {
+  return pickList(data, 'data.viewer.assignedIssues.nodes').flatMap((issue) => {
+    const identifier = asString(issue.identifier);
+    if (!identifier) return [];
+    const state = asString(asRecord(issue.state)?.name);
+    return [{
+      id: `linear:${identifier}`,
+      source: 'linear' as const,
+      text: `${identifier}: ${asString(issue.title) ?? ''}${state ? ` (${state})` : ''}`,
+      timestamp: asString(issue.updatedAt),
+      url: asString(issue.url),
+    }];
+  });
+}
+
+export function normalizeGitHubItems(data: Raw): ContextItem[] {
+  return pickList(data, 'items').flatMap((item) => {
+    const url = asString(item.html_url);
+    const number = asNumber(item.number);
+    if (!url || !number) return [];
+    // html_url looks like https://github.com/<owner>/<repo>/(pull|issues)/<number>
+    const repo = url.replace('https://github.com/', '').split('/').slice(0, 2).join('/');
+    const kind = item.pull_request ? 'PR' : 'Issue';
+    return [{
+      id: `github:${repo}#${number}`,
+      source: 'github' as const,
+      text: `${kind} ${repo}#${number}: ${asString(item.title) ?? ''} (${asString(item.state) ?? 'unknown'})`,
+      timestamp: asString(item.updated_at),
+      url,
+    }];
+  });
+}
+
+function createComposioConnector(
+  source: ContextSource,
+  slug: string,
+  buildArgs: () => Record<string, unknown>,
+  normalize: (data: Raw) => ContextItem[]
+): ContextConnector {
+  return {
+    source,
+    async fetch(userId) {
+      const data = await executeTool(userId, slug, buildArgs());
+      return normalize(data).slice(0, MAX_ITEMS_PER_SOURCE);
+    },
+  };
+}
+
+export function createComposioConnectors(): ContextConnector[] {
+  return [
+    createComposioConnector('calendar', 'GOOGLECALENDAR_EVENTS_LIST', () => ({
+      calendarId: 'primary',
+      timeMin: new Date(Date.now() - CALENDAR_LOOKBACK_MS).toISOString(),
+      timeMax: new Date(Date.now() + CALENDAR_LOOKAHEAD_MS).toISOString(),
+      singleEvents: true,
+      orderBy: 'startTime',
+      maxResults: MAX_ITEMS_PER_SOURCE,
+    }), normalizeCalendarEvents),
+    createComposioConnector('slack', 'SLACK_SEARCH_MESSAGES', () => ({
+      query: 'from:me',
+      sort: 'timestamp',
+      count: MAX_ITEMS_PER_SOURCE,
+    }), normalizeSlackMessages),
+    createComposioConnector('linear', 'LINEAR_RUN_QUERY_OR_MUTATION', () => ({
+      query_or_mutation: LINEAR_ASSIGNED_ISSUES_QUERY,
+    }), normalizeLinearIssues),
+    createComposioConnector('github', 'GITHUB_SEARCH_ISSUES_AND_PULL_REQUESTS', () => ({
+      q: 'involves:@me is:open',
+      sort: 'updated',
+      per_page: MAX_ITEMS_PER_SOURCE,
+    }), normalizeGitHubItems),
+  ];
+}
@@ -0,0 +1,108 @@
+// lib/context/provider.ts
+// Gathers a user's context items from every configured connector
+
+import { logger } from '@/lib/logger';
+import type { AgentData, PrivacySettings } from '@/lib/agents/types';
+import { recordFetchResults } from '@/lib/composio/connection-state';
+import { applyPrivacy, DEFAULT_PRIVACY_SETTINGS } from '@/lib/privacy/settings';
+import { createComposioConnectors } from './composio';
+import type { ContextConnector, ContextItem, ContextSource } from './types';
+
+export interface ContextProvider {
+  fetchContext(userId: string): Promise<ContextItem[]>;
+}
+
+// Query all connectors in parallel; one failing source doesn't block the others
+export function createConnectorContextProvider(connectors: ContextConnector[]): ContextProvider {
+  return {
+    async fetchContext(userId) {
+      const startTime = Date.now();
+      const results = await Promise.allSettled(connectors.map((connector) => connector.fetch(userId)));
+
+      const items: ContextItem[] = [];
+      const outcomes: Array<{ source: ContextSource; error?: string }> = [];
+      results.forEach((result, index) => {
+        const source = connectors[index].source;
+        if (result.status === 'fulfilled') {
+          items.push(...result.value);
+          outcomes.push({ source });
+        } else {
+          const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          logger.context.warn('Connector failed', { userId, source, error });
+          outcomes.push({ source, error });
+        }
+      });
+
+      // Feeds the connection health on the setup page; never worth failing an answer over
+      if (outcomes.length > 0) {
+        await recordFetchResults(userId, outcomes).catch((error) => {
+          logger.context.error('Failed to record fetch results', error as Error, { userId });
+        });
+      }
+
+      logger.context.info('Fetched live context', {
+        userId,
+        itemCount: items.length,
+        durationMs: Date.now() - startTime,
+      });
+      return items;
+    },
+  };
+}
+
+// Offline connector returning canned items per user, for tests and local demos
+export function createFakeConnector(
+  source: ContextSource,
+  itemsByUser: Record<string, ContextItem[]>
+): ContextConnector {
+  return {
+    source,
+    async fetch(userId) {
+      return (itemsByUser[userId] ?? []).filter((item) => item.source === source);
+    },
+  };
+}
+
+// Static strings stored on the profile (e.g. the demo agents) as context items
+export function profileContextItems(agent: AgentData): ContextItem[] {
+  const sources: Array<keyof AgentData['data']> = ['calendar', 'slack', 'linear'];
+  return sources.flatMap((source) =>
+    agent.data[source].map((text, index) => ({
+      id: `profile:${source}:${index}`,
+      source,
+      text,
+    }))
+  );
+}
+
+let provider: ContextProvider | null = null;
+
+export function getContextProvider(): ContextProvider {
+  if (!provider) {
+    // Without Composio credentials there is nothing live to fetch
+    provider = createConnectorContextProvider(
+      process.env.COMPOSIO_API_KEY ? createComposioConnectors() : []
+    );
+  }
+  return provider;
+}
+
+// Swap the provider, e.g. for fake connectors in tests
+export function setContextProvider(next: ContextProvider | null): void {
+  provider = next;
+}
+
+// Everything the agent may see, after the owner's privacy settings are applied
+export async function gatherContext(
+  userId: string,
+  agent: AgentData,
+  privacy: PrivacySettings = DEFAULT_PRIVACY_SETTINGS
+): Promise<ContextItem[]> {
+  const liveItems = await getContextProvider().fetchContext(userId);
+  const items = [...profileContextItems(agent), ...liveItems];
+  const visible = applyPrivacy(items, privacy);
+  if (visible.length !== items.length) {
+    logger.context.info('Privacy settings removed items', { userId, removed: items.length - visible.length });
+  }
+  return visible;
+}
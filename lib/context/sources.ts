@@ -0,0 +1,12 @@
+// lib/context/sources.ts
+
+import { SOURCE_LABELS, type ContextItem, type ContextSource } from './types';
+
+const SOURCE_ORDER: ContextSource[] = ['calendar', 'slack', 'linear', 'github'];
+
+// Labels of the sources that contributed at least one item, e.g. ["Calendar", "Linear"]
+export function listSources(items: Pick<ContextItem, 'source'>[]): string[] {
+  return SOURCE_ORDER
+    .filter((source) => items.some((item) => item.source === source))
+    .map((source) => SOURCE_LABELS[source]);
+}
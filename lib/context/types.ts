@@ -0,0 +1,32 @@
+// lib/context/types.ts
+// Common shape for everything the agent knows about its owner
+
+export type ContextSource = 'calendar' | 'slack' | 'linear' | 'github';
+
+export const SOURCE_LABELS: Record<ContextSource, string> = {
+  calendar: 'Calendar',
+  slack: 'Slack',
+  linear: 'Linear',
+  github: 'GitHub',
+};
+
+export interface ContextItem {
+  // Unique across sources, e.g. "linear:PROJ-123"
+  id: string;
+  source: ContextSource;
+  // One-line summary shown to the model
+  text: string;
+  // ISO 8601 time the item happened or was last updated
+  timestamp?: string;
+  // ISO 8601 end, for items that span time (calendar events)
+  endTimestamp?: string;
+  url?: string;
+  // Marked private at the source: private calendar events, private channels and DMs
+  private?: boolean;
+}
+
+// Fetches one source's items for a user
+export interface ContextConnector {
+  source: ContextSource;
+  fetch(userId: string): Promise<ContextItem[]>;
+}
@@ -0,0 +1,127 @@
+// lib/conversations/store.ts
+// Per-thread conversation memory so follow-ups keep their target and earlier Q&A
+
+import path from 'path';
+import { createJsonFile, getDataDir, storeBackend } from '@/lib/storage/json-file';
+import { createRedisJsonDocument } from '@/lib/storage/redis';
+
+// Threads go stale after a day without activity
+export const CONVERSATION_TTL_MS = 24 * 60 * 60 * 1000;
+// Only the most recent turns are kept and sent to the model
+export const MAX_TURNS = 10;
+// Bounds the number of threads held in memory
+const MAX_CONVERSATIONS = 500;
+
+export interface ConversationTurn {
+  targetUserId: string;
+  question: string;
+  answer: string;
+  askedAt: string;
+}
+
+export interface Conversation {
+  channel: string;
+  threadTs: string;
+  targetUserIds: string[];
+  turns: ConversationTurn[];
+  updatedAt: string;
+}
+
+export interface ConversationStore {
+  get(channel: string, threadTs: string): Promise<Conversation | null>;
+  // Records answered turns and the thread's current targets
+  append(channel: string, threadTs: string, targetUserIds: string[], turns: ConversationTurn[]): Promise<Conversation>;
+}
+
+type ConversationMap = Record<string, Conversation>;
+
+function conversationKey(channel: string, threadTs: string): string {
+  return `${channel}:${threadTs}`;
+}
+
+function isExpired(conversation: Conversation, now: number): boolean {
+  return now - Date.parse(conversation.updatedAt) > CONVERSATION_TTL_MS;
+}
+
+// Drop expired threads, then the least recently updated ones beyond the cap
+function prune(conversations: ConversationMap, now: number): void {
+  const entries = Object.entries(conversations);
+  for (const [key, conversation] of entries) {
+    if (isExpired(conversation, now)) delete conversations[key];
+  }
+  const live = Object.entries(conversations)
+    .sort(([, a], [, b]) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+  for (const [key] of live.slice(MAX_CONVERSATIONS)) {
+    delete conversations[key];
+  }
+}
+
+function createMapStore(
+  read: () => Promise<ConversationMap>,
+  update: <R>(mutate: (conversations: ConversationMap) => R) => Promise<R>
+): ConversationStore {
+  return {
+    async get(channel, threadTs) {
+      const conversation = (await read())[conversationKey(channel, threadTs)];
+      if (!conversation || isExpired(conversation, Date.now())) return null;
+      return conversation;
+    },
+    append(channel, threadTs, targetUserIds, turns) {
+      return update((conversations) => {
+        const now = Date.now();
+        const key = conversationKey(channel, threadTs);
+        const existing = conversations[key] && !isExpired(conversations[key], now) ? conversations[key] : null;
+        const conversation: Conversation = {
+          channel,
+          threadTs,
+          targetUserIds,
+          turns: [...(existing?.turns ?? []), ...turns].slice(-MAX_TURNS),
+          updatedAt: new Date(now).toISOString(),
+        };
+        conversations[key] = conversation;
+        prune(conversations, now);
+        return conversation;
+      });
+    },
+  };
+}
+
+export function createInMemoryConversationStore(): ConversationStore {
+  const conversations: ConversationMap = {};
+  return createMapStore(
+    async () => conversations,
+    async (mutate) => mutate(conversations)
+  );
+}
+
+export function createFileConversationStore(filePath: string): ConversationStore {
+  const file = createJsonFile<ConversationMap>(filePath, () => ({}));
+  return createMapStore(file.read, file.update);
+}
+
+export function createRedisConversationStore(key: string): ConversationStore {
+  const document = createRedisJsonDocument<ConversationMap>(key, () => ({}));
+  return createMapStore(document.read, document.update);
+}
+
+let store: ConversationStore | null = null;
+
+// Backend is selected with CONVERSATION_STORE=memory|file|redis (default: redis if configured, else file; see storeBackend).
+// Durable because a follow-up can reach a different instance than the question it follows.
+export function getConversationStore(): ConversationStore {
+  if (!store) {
+    const backend = storeBackend('CONVERSATION_STORE', { durable: true });
+    if (backend === 'memory') {
+      store = createInMemoryConversationStore();
+    } else if (backend === 'redis') {
+      store = createRedisConversationStore('conversations');
+    } else {
+      store = createFileConversationStore(path.join(getDataDir(), 'conversations.json'));
+    }
+  }
+  return store;
+}
+
+export function setConversationStore(next: ConversationStore | null): void {
+  store = next;
+}
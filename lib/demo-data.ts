@@ -1,15 +1,10 @@
 // lib/demo-data.ts
 
-export interface AgentData {
-    name: string;
-    displayName: string;
-    data: {
-      calendar: string[];
-      slack: string[];
-      linear: string[];
-    };
-  }
-  
+import type { AgentData } from './agents/types';
+
+export type { AgentData };
+
+  // Seed data for the in-memory agent store (AGENT_STORE=memory)
   // IMPORTANT: Replace U12345 and U67890 with YOUR actual Slack user IDs
   // To get your Slack user ID:
   // 1. Click your profile in Slack
@@ -65,11 +60,3 @@ export interface AgentData {
       }
     }
   };
-  
-  export function getAgentData(userId: string): AgentData | null {
-    return DEMO_AGENTS[userId] || null;
-  }
-  
-  export function getAllAgentIds(): string[] {
-    return Object.keys(DEMO_AGENTS);
-  }
\ No newline at end of file
@@ -0,0 +1,131 @@
+// lib/escalation/notify.ts
+// DMs the owner an escalated question with buttons to answer it or let the agent reply
+
+import { logger } from '@/lib/logger';
+import type { SlackBlock } from '@/lib/slack/blocks';
+import { slack } from '@/lib/slack/client';
+import { getEventDedupStore } from '@/lib/slack/dedup';
+import { describeReason, type EscalationReason } from './rules';
+
+export const ESCALATION_ACTIONS = {
+  answer: 'escalation_answer',
+  letAgentReply: 'escalation_let_agent',
+} as const;
+
+// Carried in the button value so the interactivity handler can resume the question
+export interface EscalationPayload {
+  ownerId: string;
+  askerId: string | null;
+  channel: string;
+  threadTs: string;
+  question: string;
+}
+
+// Slack caps button values at 2000 characters
+const MAX_QUESTION_IN_VALUE = 1500;
+
+export function encodeEscalationPayload(payload: EscalationPayload): string {
+  return JSON.stringify({ ...payload, question: payload.question.substring(0, MAX_QUESTION_IN_VALUE) });
+}
+
+export function decodeEscalationPayload(value: string | undefined): EscalationPayload | null {
+  if (!value) return null;
+  try {
+    const payload = JSON.parse(value) as EscalationPayload;
+    return payload.ownerId && payload.channel && payload.threadTs && payload.question ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export function escalationReplyText(displayName: string, ownerId: string): string {
+  return `🙋 ${displayName}'s agent passed this one to <@${ownerId}> - they'll follow up here.`;
+}
+
+export function escalationDmBlocks(
+  payload: EscalationPayload,
+  reason: EscalationReason,
+  permalink: string | null
+): SlackBlock[] {
+  const value = encodeEscalationPayload(payload);
+  const asker = payload.askerId ? `<@${payload.askerId}>` : 'Someone';
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `🚨 *${asker} asked your agent in <#${payload.channel}>:*\n>${payload.question}`
+      }
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Escalated because it ${describeReason(reason)}${permalink ? ` · <${permalink}|View thread>` : ''}`
+        }
+      ]
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '✍️ Answer', emoji: true },
+          action_id: ESCALATION_ACTIONS.answer,
+          style: 'primary',
+          value
+        },
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '🤖 Let agent reply', emoji: true },
+          action_id: ESCALATION_ACTIONS.letAgentReply,
+          value
+        }
+      ]
+    }
+  ];
+}
+
+// `messageTs` is the message that asked, if any. A retried job escalates it again, and the owner
+// should only get one DM per message.
+export async function notifyOwner(payload: EscalationPayload, reason: EscalationReason, messageTs?: string): Promise<void> {
+  const dedupKeys = messageTs ? [`escalation:${payload.ownerId}:${payload.channel}:${messageTs}`] : [];
+  if (dedupKeys.length > 0) {
+    const isNew = await getEventDedupStore().claim(dedupKeys).catch((error) => {
+      // Better a second DM than none
+      logger.mention.error('Failed to check escalation dedup', error as Error, { ownerId: payload.ownerId });
+      return true;
+    });
+    if (!isNew) {
+      logger.mention.info('Owner already notified of this escalation', { ownerId: payload.ownerId, channel: payload.channel, messageTs });
+      return;
+    }
+  }
+
+  try {
+    await postEscalation(payload, reason);
+  } catch (error) {
+    // Let the retry notify the owner instead
+    await getEventDedupStore().release(dedupKeys).catch(() => {});
+    throw error;
+  }
+
+  logger.mention.info('Escalated question to owner', {
+    ownerId: payload.ownerId,
+    channel: payload.channel,
+    reason: reason.type
+  });
+}
+
+async function postEscalation(payload: EscalationPayload, reason: EscalationReason): Promise<void> {
+  const permalink = await slack.chat.getPermalink({ channel: payload.channel, message_ts: payload.threadTs })
+    .then((result) => result.permalink ?? null)
+    .catch(() => null);
+
+  await slack.chat.postMessage({
+    channel: payload.ownerId,
+    text: `Your agent escalated a question: ${payload.question}`,
+    blocks: escalationDmBlocks(payload, reason, permalink)
+  });
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { checkBeforeAnswer, DEFAULT_ESCALATION_RULES } from './rules';
+
+const withKeywords = (...keywords: string[]) => ({ ...DEFAULT_ESCALATION_RULES, keywords });
+
+const keywordIn = (question: string, ...keywords: string[]) =>
+  checkBeforeAnswer(withKeywords(...keywords), { question, channel: 'C1' });
+
+describe('checkBeforeAnswer', () => {
+  it('matches a keyword as a whole word, ignoring case', () => {
+    expect(keywordIn('What is the SALARY band?', 'salary')).toEqual({ type: 'keyword', keyword: 'salary' });
+    expect(keywordIn('Any salaryman jokes?', 'salary')).toBeNull();
+  });
+
+  it('matches keywords that start or end with punctuation', () => {
+    expect(keywordIn('Do you still write C++?', 'C++')).toEqual({ type: 'keyword', keyword: 'C++' });
+    expect(keywordIn('Is the .NET port done?', '.NET')).toEqual({ type: 'keyword', keyword: '.NET' });
+    expect(keywordIn('Status of #incident 42?', '#incident')).toEqual({ type: 'keyword', keyword: '#incident' });
+    expect(keywordIn('Is the ASP.NETCore port done?', '.NET')).toBeNull();
+  });
+
+  it('escalates questions asked in a blocked channel', () => {
+    const rules = { ...DEFAULT_ESCALATION_RULES, blockedChannels: ['C9'] };
+    expect(checkBeforeAnswer(rules, { question: 'hi', channel: 'C9' })).toEqual({ type: 'blocked_channel', channel: 'C9' });
+  });
+});
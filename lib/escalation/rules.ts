@@ -0,0 +1,76 @@
+// lib/escalation/rules.ts
+// Decides when a question goes to the owner instead of being answered by their agent
+
+import type { EscalationRules } from '@/lib/agents/types';
+import { termPattern } from '@/lib/text/terms';
+
+export const DEFAULT_ESCALATION_RULES: EscalationRules = {
+  keywords: [],
+  blockedChannels: [],
+  minConfidence: null,
+};
+
+export type EscalationReason =
+  | { type: 'keyword'; keyword: string }
+  | { type: 'blocked_channel'; channel: string }
+  | { type: 'low_confidence'; confidence: number; threshold: number };
+
+// Rules that apply before the agent runs: blocked channels and escalation keywords
+export function checkBeforeAnswer(
+  rules: EscalationRules,
+  request: { question: string; channel: string }
+): EscalationReason | null {
+  if (rules.blockedChannels.includes(request.channel)) {
+    return { type: 'blocked_channel', channel: request.channel };
+  }
+
+  for (const keyword of rules.keywords) {
+    const trimmed = keyword.trim();
+    if (!trimmed) continue;
+    if (termPattern(trimmed).test(request.question)) {
+      return { type: 'keyword', keyword: trimmed };
+    }
+  }
+
+  return null;
+}
+
+// Rules that apply to the agent's answer: the confidence threshold
+export function checkAfterAnswer(rules: EscalationRules, confidence: number | null): EscalationReason | null {
+  if (rules.minConfidence === null || confidence === null) return null;
+  if (confidence < rules.minConfidence) {
+    return { type: 'low_confidence', confidence, threshold: rules.minConfidence };
+  }
+  return null;
+}
+
+export function describeReason(reason: EscalationReason): string {
+  switch (reason.type) {
+    case 'keyword':
+      return `mentions "${reason.keyword}"`;
+    case 'blocked_channel':
+      return `asked in <#${reason.channel}>, where your agent doesn't answer`;
+    case 'low_confidence':
+      return `agent confidence ${Math.round(reason.confidence * 100)}% is below your ${Math.round(reason.threshold * 100)}% threshold`;
+  }
+}
+
+// Validate rules coming from the setup page or API; returns null if malformed
+export function parseEscalationRules(input: unknown): EscalationRules | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+  const strings = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+      ? (value as string[]).map((item) => item.trim()).filter(Boolean)
+      : null;
+
+  const keywords = strings(raw.keywords ?? []);
+  const blockedChannels = strings(raw.blockedChannels ?? []);
+  const minConfidence = raw.minConfidence ?? null;
+  if (!keywords || !blockedChannels) return null;
+  if (minConfidence !== null && (typeof minConfidence !== 'number' || minConfidence < 0 || minConfidence > 1)) {
+    return null;
+  }
+
+  return { keywords, blockedChannels, minConfidence };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { ATTACK_CORPUS, evaluateCorpus } from './corpus';
+import { DEFAULT_GUARDRAIL_POLICY } from './policy';
+
+describe('attack corpus', () => {
+  it.each(ATTACK_CORPUS.map((entry) => ({ ...entry, outcome: entry.blocked ? 'blocked' : 'allowed' })))(
+    '$stage: $outcome "$text"',
+    (entry) => {
+      expect(evaluateCorpus(DEFAULT_GUARDRAIL_POLICY, [entry])).toEqual([]);
+    }
+  );
+
+  it('covers every stage with both outcomes', () => {
+    for (const stage of ['question', 'context', 'answer'] as const) {
+      const entries = ATTACK_CORPUS.filter((entry) => entry.stage === stage);
+      expect(entries.some((entry) => entry.blocked)).toBe(true);
+      expect(entries.some((entry) => !entry.blocked)).toBe(true);
+    }
+  });
+
+  it('reports the entries a weaker policy lets through', () => {
+    const mismatches = evaluateCorpus({ ...DEFAULT_GUARDRAIL_POLICY, redactEmails: false });
+    expect(mismatches).toEqual([
+      { stage: 'answer', text: 'You can reach them at jane.doe@example.com', blocked: true, actual: false },
+    ]);
+  });
+});
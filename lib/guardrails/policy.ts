@@ -0,0 +1,49 @@
+// lib/guardrails/policy.ts
+// What the guardrails block or redact. Defaults can be changed with GUARDRAIL_POLICY, a JSON object
+// with any of the fields below, e.g. {"redactEmails": false, "blockedTerms": ["acquisition"]}
+
+import { logger } from '@/lib/logger';
+
+export interface GuardrailPolicy {
+  // Refuse questions that try to override the agent's instructions
+  blockInjection: boolean;
+  // Withhold context items that contain instructions aimed at the agent
+  screenContext: boolean;
+  // Redact API keys, tokens and private keys from answers
+  redactSecrets: boolean;
+  redactEmails: boolean;
+  // Case-insensitive terms: questions containing them are refused, answers have them redacted
+  blockedTerms: string[];
+}
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = {
+  blockInjection: true,
+  screenContext: true,
+  redactSecrets: true,
+  redactEmails: true,
+  blockedTerms: [],
+};
+
+export function parseGuardrailPolicy(value: unknown): Partial<GuardrailPolicy> {
+  if (!value || typeof value !== 'object') return {};
+  const raw = value as Record<string, unknown>;
+  const policy: Partial<GuardrailPolicy> = {};
+  for (const key of ['blockInjection', 'screenContext', 'redactSecrets', 'redactEmails'] as const) {
+    if (typeof raw[key] === 'boolean') policy[key] = raw[key];
+  }
+  if (Array.isArray(raw.blockedTerms)) {
+    policy.blockedTerms = raw.blockedTerms.filter((term): term is string => typeof term === 'string' && term.trim() !== '');
+  }
+  return policy;
+}
+
+export function getGuardrailPolicy(): GuardrailPolicy {
+  const json = process.env.GUARDRAIL_POLICY;
+  if (!json) return DEFAULT_GUARDRAIL_POLICY;
+  try {
+    return { ...DEFAULT_GUARDRAIL_POLICY, ...parseGuardrailPolicy(JSON.parse(json)) };
+  } catch (error) {
+    logger.guardrails.warn('Ignoring invalid GUARDRAIL_POLICY', { error: (error as Error).message });
+    return DEFAULT_GUARDRAIL_POLICY;
+  }
+}
@@ -0,0 +1,45 @@
+import type { SectionBlock } from '@slack/types';
+import { describe, expect, it, vi } from 'vitest';
+import { digestBlocks } from './digest';
+import type { AnswerRecord } from './store';
+
+vi.mock('@/lib/slack/client', () => ({ slack: {} }));
+
+const record = (overrides: Partial<AnswerRecord> = {}): AnswerRecord => ({
+  id: 'a1',
+  ownerId: 'U1',
+  askerId: 'U2',
+  channel: 'C1',
+  threadTs: '1.0',
+  messageTs: '1.1',
+  question: 'what shipped?',
+  answer: 'The importer',
+  sources: ['Linear'],
+  permalink: null,
+  createdAt: '2026-10-19T09:00:00.000Z',
+  ...overrides,
+});
+
+// Text of every section block, where Slack's 3000-character limit applies
+const sectionTexts = (records: AnswerRecord[]) => digestBlocks(records).flatMap((block) =>
+  block.type === 'section' ? [(block as SectionBlock).text?.text ?? ''] : []
+);
+
+describe('digestBlocks', () => {
+  it('quotes the answer under the question', () => {
+    expect(sectionTexts([record()])).toEqual(['*<@U2>* asked in <#C1>: what shipped?\n>The importer']);
+  });
+
+  it('keeps every section within Slack\'s limit however long the question and answer are', () => {
+    const texts = sectionTexts([
+      record({ question: 'why '.repeat(2000) }),
+      record({ answer: 'line\n'.repeat(2000) }),
+    ]);
+
+    expect(texts).toHaveLength(2);
+    for (const text of texts) {
+      expect(text.length).toBeLessThanOrEqual(3000);
+    }
+    expect(texts[0]).toMatch(/why …\n>The importer$/);
+  });
+});
@@ -0,0 +1,97 @@
+// lib/history/digest.ts
+// Morning DM to each owner summarising what their agent answered the previous day
+
+import { logger } from '@/lib/logger';
+import type { SlackBlock } from '@/lib/slack/blocks';
+import { slack } from '@/lib/slack/client';
+import { getAnswerHistoryStore, type AnswerRecord } from './store';
+
+const DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Slack allows 50 blocks per message; leave room for the header and footer
+const MAX_DIGEST_ENTRIES = 15;
+const MAX_QUESTION_PREVIEW = 300;
+const MAX_ANSWER_PREVIEW = 500;
+// Slack section text is capped at 3000 characters, and one oversized section fails the whole digest
+const MAX_SECTION_LENGTH = 2900;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length)}…` : text;
+}
+
+function quote(text: string): string {
+  return truncate(text, MAX_ANSWER_PREVIEW).split('\n').map((line) => `>${line}`).join('\n');
+}
+
+export function digestBlocks(records: AnswerRecord[]): SlackBlock[] {
+  const shown = records.slice(0, MAX_DIGEST_ENTRIES);
+  const blocks: SlackBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: '☀️ Your agent\'s answers from the last day', emoji: true }
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Your agent answered ${records.length} question${records.length === 1 ? '' : 's'} on your behalf.` }]
+    }
+  ];
+
+  for (const record of shown) {
+    const asker = record.askerId ? `<@${record.askerId}>` : 'Someone';
+    const link = record.permalink ? ` · <${record.permalink}|View thread>` : '';
+    blocks.push(
+      { type: 'divider' },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: truncate(`*${asker}* asked in <#${record.channel}>: ${truncate(record.question, MAX_QUESTION_PREVIEW)}\n${quote(record.answer)}`, MAX_SECTION_LENGTH)
+        }
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `📎 ${record.sources.length > 0 ? record.sources.join(', ') : 'No sources'}${link}` }]
+      }
+    );
+  }
+
+  if (records.length > shown.length) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `…and ${records.length - shown.length} more. Use the history API to see everything.` }]
+    });
+  }
+
+  return blocks;
+}
+
+// DM every owner whose agent answered something in the 24 hours before `now`
+export async function sendDailyDigests(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+  const store = getAnswerHistoryStore();
+  const window = {
+    since: new Date(now.getTime() - DIGEST_WINDOW_MS).toISOString(),
+    until: now.toISOString(),
+  };
+  const owners = await store.listOwners(window);
+  logger.history.info('Sending daily digests', { owners: owners.length, ...window });
+
+  let sent = 0;
+  let failed = 0;
+  for (const ownerId of owners) {
+    try {
+      // Oldest first reads like a timeline
+      const records = (await store.list(ownerId, window)).reverse();
+      await slack.chat.postMessage({
+        channel: ownerId,
+        text: `Your agent answered ${records.length} question${records.length === 1 ? '' : 's'} yesterday`,
+        blocks: digestBlocks(records)
+      });
+      sent++;
+    } catch (error) {
+      failed++;
+      logger.history.error('Failed to send digest', error as Error, { ownerId });
+    }
+  }
+
+  logger.history.info('Daily digests sent', { sent, failed });
+  return { sent, failed };
+}
@@ -0,0 +1,172 @@
+// lib/history/store.ts
+// Everything an agent said on its owner's behalf, for review and the morning digest
+
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { Citation } from '@/lib/context/citations';
+import { createJsonFile, getDataDir, storeBackend } from '@/lib/storage/json-file';
+import { createRedisJsonDocument } from '@/lib/storage/redis';
+
+// Keep a month of answers per deployment
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type FeedbackRating = 'helpful' | 'unhelpful' | 'wrong';
+
+export interface AnswerFeedback {
+  userId: string;
+  rating: FeedbackRating;
+  at: string;
+}
+
+export interface AnswerRecord {
+  id: string;
+  // Owner of the agent that answered
+  ownerId: string;
+  // Slack user who asked
+  askerId: string | null;
+  channel: string;
+  threadTs: string;
+  messageTs: string;
+  question: string;
+  answer: string;
+  // Labels of the cited sources, e.g. ["Calendar", "Linear"]
+  sources: string[];
+  // Items the answer cited; unset on answers recorded before citations
+  citations?: Citation[];
+  permalink: string | null;
+  feedback?: AnswerFeedback[];
+  // Everyone who has flagged the answer as wrong, even if they changed their rating since
+  flaggedBy?: string[];
+  createdAt: string;
+}
+
+export type AnswerRecordInput = Omit<AnswerRecord, 'id' | 'createdAt' | 'feedback' | 'flaggedBy'>;
+
+export interface FeedbackResult {
+  record: AnswerRecord;
+  // First time this user flagged the answer as wrong, so the owner should hear about it
+  firstFlag: boolean;
+}
+
+export interface AnswerFilter {
+  // ISO 8601 bounds on createdAt (inclusive since, exclusive until)
+  since?: string;
+  until?: string;
+  askerId?: string;
+  channel?: string;
+  // Case-insensitive match on question or answer
+  query?: string;
+  limit?: number;
+}
+
+export interface AnswerHistoryStore {
+  record(input: AnswerRecordInput): Promise<AnswerRecord>;
+  // Newest first
+  list(ownerId: string, filter?: AnswerFilter): Promise<AnswerRecord[]>;
+  // Owners with at least one answer in the window
+  listOwners(filter?: Pick<AnswerFilter, 'since' | 'until'>): Promise<string[]>;
+  // Attach a rating to the answer posted in `messageTs`; one rating per user, latest wins.
+  // Repeating the same rating keeps the first. Null if no such answer was recorded.
+  addFeedback(messageTs: string, ownerId: string, feedback: AnswerFeedback): Promise<FeedbackResult | null>;
+}
+
+function matches(record: AnswerRecord, filter: AnswerFilter): boolean {
+  if (filter.since && record.createdAt < filter.since) return false;
+  if (filter.until && record.createdAt >= filter.until) return false;
+  if (filter.askerId && record.askerId !== filter.askerId) return false;
+  if (filter.channel && record.channel !== filter.channel) return false;
+  if (filter.query) {
+    const query = filter.query.toLowerCase();
+    if (!record.question.toLowerCase().includes(query) && !record.answer.toLowerCase().includes(query)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function createListStore(
+  read: () => Promise<AnswerRecord[]>,
+  update: <R>(mutate: (records: AnswerRecord[]) => R) => Promise<R>
+): AnswerHistoryStore {
+  return {
+    record(input) {
+      return update((records) => {
+        const record: AnswerRecord = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+        records.push(record);
+        // Drop anything past retention, oldest first
+        const cutoff = new Date(Date.now() - RETENTION_MS).toISOString();
+        while (records.length > 0 && records[0].createdAt < cutoff) {
+          records.shift();
+        }
+        return record;
+      });
+    },
+    async list(ownerId, filter = {}) {
+      const records = (await read())
+        .filter((record) => record.ownerId === ownerId && matches(record, filter))
+        .reverse();
+      return filter.limit ? records.slice(0, filter.limit) : records;
+    },
+    async listOwners(filter = {}) {
+      const owners = (await read())
+        .filter((record) => matches(record, filter))
+        .map((record) => record.ownerId);
+      return Array.from(new Set(owners));
+    },
+    addFeedback(messageTs, ownerId, feedback) {
+      return update((records) => {
+        const record = records.find((item) => item.messageTs === messageTs && item.ownerId === ownerId);
+        if (!record) return null;
+        const previous = record.feedback?.find((item) => item.userId === feedback.userId);
+        if (previous?.rating !== feedback.rating) {
+          record.feedback = [...(record.feedback ?? []).filter((item) => item !== previous), feedback];
+        }
+        const firstFlag = feedback.rating === 'wrong' && !record.flaggedBy?.includes(feedback.userId);
+        if (firstFlag) {
+          record.flaggedBy = [...(record.flaggedBy ?? []), feedback.userId];
+        }
+        return { record: { ...record }, firstFlag };
+      });
+    },
+  };
+}
+
+export function createInMemoryAnswerHistoryStore(): AnswerHistoryStore {
+  const records: AnswerRecord[] = [];
+  return createListStore(
+    async () => records,
+    async (mutate) => mutate(records)
+  );
+}
+
+export function createFileAnswerHistoryStore(filePath: string): AnswerHistoryStore {
+  const file = createJsonFile<AnswerRecord[]>(filePath, () => []);
+  return createListStore(file.read, file.update);
+}
+
+export function createRedisAnswerHistoryStore(key: string): AnswerHistoryStore {
+  const document = createRedisJsonDocument<AnswerRecord[]>(key, () => []);
+  return createListStore(document.read, document.update);
+}
+
+let store: AnswerHistoryStore | null = null;
+
+// Backend is selected with HISTORY_STORE=memory|file|redis (default: redis if configured, else file; see storeBackend).
+// Durable because the digest cron reads answers that any instance recorded.
+export function getAnswerHistoryStore(): AnswerHistoryStore {
+  if (!store) {
+    const backend = storeBackend('HISTORY_STORE', { durable: true });
+    if (backend === 'memory') {
+      store = createInMemoryAnswerHistoryStore();
+    } else if (backend === 'redis') {
+      store = createRedisAnswerHistoryStore('history');
+    } else {
+      store = createFileAnswerHistoryStore(path.join(getDataDir(), 'history.json'));
+    }
+  }
+  return store;
+}
+
+export function setAnswerHistoryStore(next: AnswerHistoryStore | null): void {
+  store = next;
+}
@@ -0,0 +1,70 @@
+// lib/jobs/handlers.ts
+// What each job type does, and how it tells the asker when it finally gives up
+
+import { refreshIndex } from '@/lib/retrieval/ingest';
+import { slack } from '@/lib/slack/client';
+import { answerPrivately, respondToCommand } from '@/lib/slack/commands/ask';
+import { runReindex } from '@/lib/slack/commands/reindex';
+import { ephemeral } from '@/lib/slack/commands/types';
+import { askAgentInThread, handleAppMention, type MentionProgress } from '@/lib/slack/mention';
+import type { Job, JobQueue, JobType } from './queue';
+
+export interface JobHandler<T extends JobType> {
+  run(job: Job<T>, progress: MentionProgress): Promise<void>;
+  // Tell the asker the job failed for good
+  reportFailure(job: Job<T>, text: string): Promise<void>;
+}
+
+// Replace the "Asking..." message, or post in the thread if it was never sent
+async function reportInThread(job: Job, channel: string, threadTs: string, text: string) {
+  if (job.state.placeholderTs) {
+    await slack.chat.update({ channel, ts: job.state.placeholderTs, text, blocks: [] });
+  } else {
+    await slack.chat.postMessage({ channel, thread_ts: threadTs, text });
+  }
+}
+
+export const JOB_HANDLERS: { [T in JobType]: JobHandler<T> } = {
+  app_mention: {
+    run: (job, progress) => handleAppMention(job.payload.event, job.payload.botUserId, progress),
+    reportFailure: (job, text) => {
+      const { event } = job.payload;
+      return reportInThread(job, event.channel, event.thread_ts || event.ts, text);
+    },
+  },
+  ask_agent: {
+    run: (job, progress) => askAgentInThread(job.payload.request, [], { skipEscalation: job.payload.skipEscalation, progress }),
+    reportFailure: (job, text) => reportInThread(job, job.payload.request.channel, job.payload.request.threadTs, text),
+  },
+  private_ask: {
+    run: (job) => answerPrivately(job.payload.request, job.payload.responseUrl),
+    reportFailure: (job, text) => respondToCommand(job.payload.responseUrl, ephemeral(text)),
+  },
+  reindex: {
+    run: (job) => runReindex(job.payload.userId, job.payload.responseUrl),
+    reportFailure: (job) => respondToCommand(
+      job.payload.responseUrl,
+      ephemeral(`❌ Sorry, I couldn't rebuild your agent's index after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}. Please try again later.`)
+    ),
+  },
+  refresh_index: {
+    run: async (job) => {
+      await refreshIndex(job.payload.userId);
+    },
+    // Nobody is waiting on a background refresh; the worker has logged the failure
+    reportFailure: async () => {},
+  },
+};
+
+// Progress hooks that persist the placeholder message on the job
+export function jobProgress(queue: JobQueue, job: Job): MentionProgress {
+  return {
+    attempt: job.attempts,
+    placeholderTs: job.state.placeholderTs,
+    savePlaceholder: (ts) => queue.saveState(job.id, { placeholderTs: ts }),
+  };
+}
+
+export function deadJobText(job: Job): string {
+  return `❌ Sorry, I couldn't get an answer after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}. Please try asking again later.`;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createInMemoryJobQueue, LEASE_MS } from './queue';
+
+const payload = { request: { targetUserId: 'U1', question: 'q', askerId: 'U2', channel: 'C1' }, responseUrl: 'https://example.com' };
+
+describe('job leases', () => {
+  it('claims a job again when its worker died before the last attempt', async () => {
+    const queue = createInMemoryJobQueue();
+    await queue.enqueue('private_ask', payload, { maxAttempts: 2 });
+    const start = Date.now();
+
+    expect(await queue.claim(start)).toMatchObject({ attempts: 1 });
+    expect(await queue.claim(start + 1000)).toBeNull();
+    expect(await queue.claim(start + LEASE_MS + 1)).toMatchObject({ attempts: 2 });
+  });
+
+  it('dead-letters a job whose worker died on its last attempt instead of claiming it again', async () => {
+    const queue = createInMemoryJobQueue();
+    const job = await queue.enqueue('private_ask', payload, { maxAttempts: 1 });
+    const start = Date.now();
+    await queue.claim(start);
+
+    const expired = start + LEASE_MS + 1;
+    expect(await queue.reapExpired(start + 1000)).toEqual([]);
+    expect(await queue.claim(expired)).toBeNull();
+
+    const reaped = await queue.reapExpired(expired);
+    expect(reaped).toMatchObject([{ id: job.id, status: 'dead', attempts: 1 }]);
+    expect(await queue.listDeadLetters()).toMatchObject([{ id: job.id }]);
+    expect(await queue.nextRunAt()).toBeNull();
+  });
+});
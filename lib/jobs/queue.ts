@@ -0,0 +1,221 @@
+// lib/jobs/queue.ts
+// Durable job queue: routes enqueue work and acknowledge Slack, a worker drains it with retries.
+// Jobs are leased while running so a crashed worker's job is picked up again once the lease expires.
+
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { PrivateAskRequest } from '@/lib/slack/commands/ask';
+import type { AskRequest, MentionEvent } from '@/lib/slack/mention';
+import { createJsonFile, getDataDir, storeBackend } from '@/lib/storage/json-file';
+import { createRedisJsonDocument } from '@/lib/storage/redis';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Longer than a single LLM answer takes, shorter than anyone would wait
+export const LEASE_MS = 90 * 1000;
+const MAX_DEAD_LETTERS = 100;
+
+// Payload for each job type
+export interface JobPayloads {
+  app_mention: { event: MentionEvent; botUserId: string | null };
+  ask_agent: { request: AskRequest & { targetUserId: string }; skipEscalation?: boolean };
+  private_ask: { request: PrivateAskRequest; responseUrl: string };
+  reindex: { userId: string; responseUrl: string };
+  refresh_index: { userId: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+// Progress a handler saves so a retry can pick up where the last attempt left off
+export interface JobState {
+  // The "Asking X's agent..." message, reused on retry and marked failed on dead letter
+  placeholderTs?: string;
+}
+
+export type JobStatus = 'pending' | 'running' | 'dead';
+
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  state: JobState;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // Epoch ms when the job is next due
+  runAt: number;
+  leaseUntil?: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobQueue {
+  enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options?: { maxAttempts?: number }): Promise<Job<T>>;
+  // Lease the next due job, counting it as an attempt
+  claim(now?: number): Promise<Job | null>;
+  // Dead-letter jobs whose worker died on their last attempt, and return them so the asker can be told
+  reapExpired(now?: number): Promise<Job[]>;
+  // Earliest runAt among pending jobs, so the worker knows how long to wait
+  nextRunAt(): Promise<number | null>;
+  saveState(id: string, state: JobState): Promise<void>;
+  complete(id: string): Promise<void>;
+  retry(id: string, error: string, runAt: number): Promise<void>;
+  deadLetter(id: string, error: string): Promise<void>;
+  listDeadLetters(): Promise<Job[]>;
+}
+
+type JobList = Job[];
+
+// A running job whose lease ran out belongs to a worker that died
+function leaseExpired(job: Job, now: number): boolean {
+  return job.status === 'running' && (job.leaseUntil ?? 0) <= now;
+}
+
+function isDue(job: Job, now: number): boolean {
+  if (job.status === 'pending') return job.runAt <= now;
+  // A job that keeps killing its worker (timeout, out of memory) must not be retried forever
+  return leaseExpired(job, now) && job.attempts < job.maxAttempts;
+}
+
+function markDead(job: Job, jobs: JobList, error: string): void {
+  job.status = 'dead';
+  job.leaseUntil = undefined;
+  job.lastError = error;
+  // Keep only the most recent dead letters
+  const dead = jobs.filter((item) => item.status === 'dead');
+  for (const stale of dead.slice(0, Math.max(0, dead.length - MAX_DEAD_LETTERS))) {
+    jobs.splice(jobs.indexOf(stale), 1);
+  }
+}
+
+function createListQueue(
+  read: () => Promise<JobList>,
+  update: <R>(mutate: (jobs: JobList) => R) => Promise<R>
+): JobQueue {
+  const modify = (id: string, change: (job: Job, jobs: JobList) => void) =>
+    update((jobs) => {
+      const job = jobs.find((item) => item.id === id);
+      if (job) {
+        change(job, jobs);
+        job.updatedAt = new Date().toISOString();
+      }
+    });
+
+  return {
+    enqueue(type, payload, options = {}) {
+      return update((jobs) => {
+        const now = new Date();
+        const job: Job<typeof type> = {
+          id: randomUUID(),
+          type,
+          payload,
+          state: {},
+          status: 'pending',
+          attempts: 0,
+          maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+          runAt: now.getTime(),
+          createdAt: now.toISOString(),
+          updatedAt: now.toISOString(),
+        };
+        jobs.push(job as Job);
+        return job;
+      });
+    },
+    claim(now = Date.now()) {
+      return update((jobs) => {
+        const job = jobs
+          .filter((item) => isDue(item, now))
+          .sort((a, b) => a.runAt - b.runAt)[0];
+        if (!job) return null;
+        job.status = 'running';
+        job.attempts += 1;
+        job.leaseUntil = now + LEASE_MS;
+        job.updatedAt = new Date(now).toISOString();
+        return { ...job };
+      });
+    },
+    reapExpired(now = Date.now()) {
+      return update((jobs) => {
+        const expired = jobs.filter((job) => leaseExpired(job, now) && job.attempts >= job.maxAttempts);
+        for (const job of expired) {
+          markDead(job, jobs, `Worker stopped during attempt ${job.attempts} of ${job.maxAttempts}`);
+          job.updatedAt = new Date(now).toISOString();
+        }
+        return expired.map((job) => ({ ...job }));
+      });
+    },
+    async nextRunAt() {
+      const pending = (await read()).filter((job) => job.status !== 'dead');
+      if (pending.length === 0) return null;
+      return Math.min(...pending.map((job) => job.status === 'running' ? job.leaseUntil ?? job.runAt : job.runAt));
+    },
+    saveState(id, state) {
+      return modify(id, (job) => {
+        job.state = { ...job.state, ...state };
+      });
+    },
+    complete(id) {
+      return update((jobs) => {
+        const index = jobs.findIndex((job) => job.id === id);
+        if (index >= 0) jobs.splice(index, 1);
+      });
+    },
+    retry(id, error, runAt) {
+      return modify(id, (job) => {
+        job.status = 'pending';
+        job.runAt = runAt;
+        job.leaseUntil = undefined;
+        job.lastError = error;
+      });
+    },
+    deadLetter(id, error) {
+      return modify(id, (job, jobs) => markDead(job, jobs, error));
+    },
+    async listDeadLetters() {
+      return (await read()).filter((job) => job.status === 'dead');
+    },
+  };
+}
+
+// In-process backend for tests and single-instance deployments
+export function createInMemoryJobQueue(): JobQueue {
+  const jobs: JobList = [];
+  return createListQueue(
+    async () => jobs,
+    async (mutate) => mutate(jobs)
+  );
+}
+
+// File backend for self-hosting: jobs survive restarts
+export function createFileJobQueue(filePath: string): JobQueue {
+  const file = createJsonFile<JobList>(filePath, () => []);
+  return createListQueue(file.read, file.update);
+}
+
+// Redis backend for serverless deployments: every instance and the cron see the same jobs
+export function createRedisJobQueue(key: string): JobQueue {
+  const document = createRedisJsonDocument<JobList>(key, () => []);
+  return createListQueue(document.read, document.update);
+}
+
+let queue: JobQueue | null = null;
+
+// Backend is selected with JOB_QUEUE=memory|file|redis (default: redis if configured, else file; see storeBackend).
+// Durable because the cron drain retries jobs whose worker died on another instance.
+export function getJobQueue(): JobQueue {
+  if (!queue) {
+    const backend = storeBackend('JOB_QUEUE', { durable: true });
+    if (backend === 'memory') {
+      queue = createInMemoryJobQueue();
+    } else if (backend === 'redis') {
+      queue = createRedisJobQueue('jobs');
+    } else {
+      queue = createFileJobQueue(path.join(getDataDir(), 'jobs.json'));
+    }
+  }
+  return queue;
+}
+
+export function setJobQueue(next: JobQueue | null): void {
+  queue = next;
+}
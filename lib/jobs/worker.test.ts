@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryJobQueue, getJobQueue, LEASE_MS, setJobQueue } from './queue';
+import { drainBudgetMs, drainIfDue, drainQueue } from './worker';
+
+const handlers = vi.hoisted(() => ({ run: vi.fn(), reportFailure: vi.fn() }));
+
+vi.mock('./handlers', () => ({
+  JOB_HANDLERS: { private_ask: handlers },
+  deadJobText: () => 'failed',
+  jobProgress: () => ({}),
+}));
+
+const payload = { request: { targetUserId: 'U1', question: 'q', askerId: 'U2', channel: 'C1' }, responseUrl: 'https://example.com' };
+
+describe('job worker', () => {
+  beforeEach(() => {
+    setJobQueue(createInMemoryJobQueue());
+    handlers.run.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+    setJobQueue(null);
+  });
+
+  it('leaves room in the budget for a whole job, both models included', () => {
+    vi.stubEnv('LLM_TIMEOUT_MS', '20000');
+    vi.stubEnv('LLM_FALLBACK_MODEL', '');
+    expect(drainBudgetMs()).toBe(30 * 1000);
+
+    vi.stubEnv('LLM_FALLBACK_MODEL', 'mock:echo');
+    expect(drainBudgetMs()).toBe(10 * 1000);
+
+    vi.stubEnv('LLM_TIMEOUT_MS', '40000');
+    expect(drainBudgetMs()).toBe(0);
+  });
+
+  it('runs the first job even without budget, and claims nothing after it', async () => {
+    await getJobQueue().enqueue('private_ask', payload);
+    await getJobQueue().enqueue('private_ask', payload);
+
+    expect(await drainQueue({ budgetMs: 0 })).toEqual({ processed: 1 });
+    expect(handlers.run).toHaveBeenCalledOnce();
+  });
+
+  it('only drains when a job is due', async () => {
+    expect(await drainIfDue()).toEqual({ processed: 0 });
+
+    await getJobQueue().enqueue('private_ask', payload);
+    expect(await drainIfDue()).toEqual({ processed: 1 });
+  });
+
+  it('retries a job whose worker was killed once its lease runs out', async () => {
+    await getJobQueue().enqueue('private_ask', payload);
+    const start = Date.now();
+    // A worker that claimed the job and never finished it
+    await getJobQueue().claim(start);
+
+    expect(await drainIfDue(start + 1000)).toEqual({ processed: 0 });
+
+    vi.useFakeTimers({ now: start + LEASE_MS + 1, toFake: ['Date'] });
+    try {
+      expect(await drainIfDue()).toEqual({ processed: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(handlers.run).toHaveBeenCalledWith(expect.objectContaining({ attempts: 2 }), expect.anything());
+  });
+});
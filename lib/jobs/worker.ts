@@ -0,0 +1,100 @@
+// lib/jobs/worker.ts
+// Drains the job queue: run due jobs, back off and retry failures, dead-letter what keeps failing
+
+import { getModelConfig } from '@/lib/llm/config';
+import { logger } from '@/lib/logger';
+import { deadJobText, JOB_HANDLERS, jobProgress, type JobHandler } from './handlers';
+import { getJobQueue, type Job, type JobType } from './queue';
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60 * 1000;
+// maxDuration of the routes that drain the queue; the function is killed at this point
+const MAX_DURATION_MS = 60 * 1000;
+// What a job spends besides the model: Slack calls, retrieval and its embedding request
+const JOB_OVERHEAD_MS = 10 * 1000;
+
+export function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+// How long a drain keeps claiming new jobs. A job claimed later than this could still be running
+// when the function is killed, and would stay leased until LEASE_MS runs out. So the budget
+// leaves room for one whole job: both models timing out, plus the rest of the work.
+export function drainBudgetMs(): number {
+  const { timeoutMs, fallback } = getModelConfig();
+  const jobMs = timeoutMs * (fallback ? 2 : 1) + JOB_OVERHEAD_MS;
+  return Math.max(MAX_DURATION_MS - jobMs, 0);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function reportDead(handler: JobHandler<JobType>, job: Job): Promise<void> {
+  await handler.reportFailure(job, deadJobText(job)).catch((reportError) => {
+    logger.jobs.error('Failed to report dead job', reportError as Error, { jobId: job.id, type: job.type });
+  });
+}
+
+async function runJob(job: Job): Promise<void> {
+  const queue = getJobQueue();
+  const handler = JOB_HANDLERS[job.type] as JobHandler<JobType>;
+  logger.jobs.info('Running job', { jobId: job.id, type: job.type, attempt: job.attempts });
+
+  try {
+    await handler.run(job, jobProgress(queue, job));
+    await queue.complete(job.id);
+    logger.jobs.info('Job completed', { jobId: job.id, type: job.type });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (job.attempts >= job.maxAttempts) {
+      logger.jobs.error('Job failed permanently', error as Error, { jobId: job.id, type: job.type, attempts: job.attempts });
+      await queue.deadLetter(job.id, message);
+      // Re-read the placeholder a handler may have saved during this attempt
+      const dead = (await queue.listDeadLetters()).find((item) => item.id === job.id) ?? job;
+      await reportDead(handler, dead);
+      return;
+    }
+
+    const delay = backoffMs(job.attempts);
+    logger.jobs.warn('Job failed, will retry', { jobId: job.id, type: job.type, attempt: job.attempts, delayMs: delay, error: message });
+    await queue.retry(job.id, message, Date.now() + delay);
+  }
+}
+
+// Process jobs until the queue is empty or the time budget runs out. The first due job is
+// always run, however small the budget.
+// Called after each Slack request is acknowledged, and by the cron route as a safety net.
+export async function drainQueue(options: { budgetMs?: number } = {}): Promise<{ processed: number }> {
+  const queue = getJobQueue();
+  const deadline = Date.now() + (options.budgetMs ?? drainBudgetMs());
+  let processed = 0;
+
+  while (processed === 0 || Date.now() < deadline) {
+    for (const dead of await queue.reapExpired()) {
+      logger.jobs.error('Job worker died on its last attempt', undefined, { jobId: dead.id, type: dead.type, attempts: dead.attempts });
+      await reportDead(JOB_HANDLERS[dead.type] as JobHandler<JobType>, dead);
+    }
+
+    const job = await queue.claim();
+    if (job) {
+      await runJob(job);
+      processed++;
+      continue;
+    }
+
+    // Wait for a retry that comes due before the deadline; anything later is left for the next drain
+    const nextRunAt = await queue.nextRunAt();
+    if (nextRunAt === null || nextRunAt >= deadline) break;
+    await sleep(Math.max(nextRunAt - Date.now(), 0) + 50);
+  }
+
+  return { processed };
+}
+
+// Drain only when something is already due: a job this request queued, a retry, or a job whose
+// worker was killed mid-run and whose lease has run out. Only reads the queue when nothing is,
+// so routes run it after every request instead of leaving stuck jobs to the daily cron.
+export async function drainIfDue(now = Date.now()): Promise<{ processed: number }> {
+  const nextRunAt = await getJobQueue().nextRunAt();
+  if (nextRunAt === null || nextRunAt > now) return { processed: 0 };
+  return drainQueue();
+}
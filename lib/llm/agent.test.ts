@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryAgentProfileStore, getAgentProfileStore, setAgentProfileStore } from '@/lib/agents/store';
+import type { AgentProfile } from '@/lib/agents/types';
+import { createConnectorContextProvider, createFakeConnector, setContextProvider } from '@/lib/context/provider';
+import { createInMemoryJobQueue, setJobQueue } from '@/lib/jobs/queue';
+import { createInMemoryVectorIndexStore, setVectorIndexStore } from '@/lib/retrieval/store';
+import { createInMemoryEventDedupStore, setEventDedupStore } from '@/lib/slack/dedup';
+import { answerQuestion } from './agent';
+import { createMockModel, MOCK_CONFIDENCE } from './mock';
+import { registerModelProvider } from './providers';
+
+// Like mock:tools, but never sees the tool results, so it asks for them again at every step
+registerModelProvider('looping', () => {
+  const model = createMockModel('tools');
+  return {
+    ...model,
+    doStream: (options) => model.doStream({ ...options, prompt: options.prompt.filter((message) => message.role !== 'tool') }),
+  };
+});
+
+describe('agent tool loop', () => {
+  let agent: AgentProfile;
+
+  beforeEach(async () => {
+    vi.stubEnv('LLM_MODEL', 'mock:tools');
+    vi.stubEnv('LLM_FALLBACK_MODEL', '');
+    vi.stubEnv('EMBEDDING_MODEL', 'local:hash');
+    setAgentProfileStore(createInMemoryAgentProfileStore({
+      U1: { name: 'jane', displayName: 'Jane', data: { calendar: ['Standup at 10am'], slack: [], linear: ['PROJ-1 Ship the importer'] } },
+    }));
+    setContextProvider(createConnectorContextProvider([
+      createFakeConnector('github', {
+        U1: [{ id: 'github:acme/app#7', source: 'github', text: 'PR #7 Add CSV import', url: 'https://github.test/acme/app/pull/7' }],
+      }),
+    ]));
+    setVectorIndexStore(createInMemoryVectorIndexStore());
+    setEventDedupStore(createInMemoryEventDedupStore());
+    setJobQueue(createInMemoryJobQueue());
+    agent = (await getAgentProfileStore().get('U1'))!;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setAgentProfileStore(null);
+    setContextProvider(null);
+    setVectorIndexStore(null);
+    setEventDedupStore(null);
+    setJobQueue(null);
+  });
+
+  it('calls the tools, returns their items to the model and cites them', async () => {
+    const result = await answerQuestion('U1', agent, 'what are you working on?');
+
+    expect(result.steps).toBe(2);
+    expect(result.model).toBe('mock:tools');
+    // getIssues and getPullRequests need no input; getCalendar and searchMessages aren't called
+    expect(result.usedItems.map((item) => item.id).sort()).toEqual(['github:acme/app#7', 'profile:linear:0']);
+    expect(result.answer).toMatch(/^Mock answer to "what are you working on\?" based on 2 items/);
+    expect(result.citations.map((citation) => citation.id).sort()).toEqual(['github:acme/app#7', 'profile:linear:0']);
+    expect(result.confidence).toBe(MOCK_CONFIDENCE);
+  });
+
+  it('stops after the step limit when the model keeps calling tools', async () => {
+    vi.stubEnv('LLM_MODEL', 'looping:model');
+
+    const result = await answerQuestion('U1', agent, 'what are you working on?');
+
+    expect(result.steps).toBe(5);
+    expect(result.answer).toBe('');
+    expect(result.confidence).toBeNull();
+  });
+
+  it('hands a failing tool back to the model as an error instead of failing the answer', async () => {
+    setContextProvider({
+      fetchContext: async () => {
+        throw new Error('Composio is down');
+      },
+    });
+
+    const result = await answerQuestion('U1', agent, 'what are you working on?');
+
+    expect(result.steps).toBe(2);
+    expect(result.usedItems).toEqual([]);
+    expect(result.answer).toMatch(/based on 0 items\.$/);
+  });
+});
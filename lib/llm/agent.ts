@@ -0,0 +1,177 @@
+// lib/llm/agent.ts
+// Tool-calling agent loop: the model fetches only the data a question needs
+
+import { stepCountIs, streamText, type ModelMessage } from 'ai';
+import type { AgentProfile } from '@/lib/agents/types';
+import { hideCitationMarkers, resolveCitations, type Citation } from '@/lib/context/citations';
+import type { ContextItem } from '@/lib/context/types';
+import type { ConversationTurn } from '@/lib/conversations/store';
+import { redactAnswer, redactPartialAnswer, screenContextItems, UNTRUSTED_DATA_INSTRUCTIONS } from '@/lib/guardrails/checks';
+import { getGuardrailPolicy } from '@/lib/guardrails/policy';
+import { logger } from '@/lib/logger';
+import { retrieveContext } from '@/lib/retrieval/ingest';
+import { getModelConfig, type ModelConfig } from './config';
+import { resolveModel } from './providers';
+import { createAgentTools } from './tools';
+
+// Enough for a few lookups plus the final answer
+const MAX_STEPS = 5;
+
+// The model ends every answer with this line so escalation rules can check it
+const CONFIDENCE_LINE = /\n*\s*Confidence:\s*(0(?:\.\d+)?|1(?:\.0+)?)\s*$/i;
+
+export interface AgentAnswer {
+  answer: string;
+  // Self-reported confidence between 0 and 1, or null if the model didn't report one
+  confidence: number | null;
+  // Every item returned by a tool call during the run
+  usedItems: ContextItem[];
+  // The items the answer cites, numbered as in the answer text
+  citations: Citation[];
+  steps: number;
+  // The "<provider>:<model>" that answered
+  model: string;
+}
+
+// Earlier turns of the thread become prior user/assistant messages
+function historyMessages(history: ConversationTurn[]): ModelMessage[] {
+  return history.flatMap((turn): ModelMessage[] => [
+    { role: 'user', content: turn.question },
+    { role: 'assistant', content: turn.answer },
+  ]);
+}
+
+export function extractConfidence(text: string): { answer: string; confidence: number | null } {
+  const match = text.match(CONFIDENCE_LINE);
+  if (!match) return { answer: text.trim(), confidence: null };
+  return { answer: text.slice(0, match.index).trim(), confidence: Number(match[1]) };
+}
+
+// While streaming, hide the confidence line the model is part-way through writing
+export function visibleText(text: string): string {
+  const lastBreak = text.lastIndexOf('\n');
+  const lastLine = text.slice(lastBreak + 1).trim().toLowerCase();
+  const isConfidenceLine = lastLine.length > 0 &&
+    ('confidence:'.startsWith(lastLine) || lastLine.startsWith('confidence:'));
+  return hideCitationMarkers(isConfidenceLine ? text.slice(0, Math.max(lastBreak, 0)) : text).trim();
+}
+
+type StreamParams = Pick<Parameters<typeof streamText>[0], 'system' | 'tools' | 'stopWhen' | 'maxOutputTokens' | 'temperature'> & {
+  messages: ModelMessage[];
+};
+
+async function streamOnce(model: string, config: ModelConfig, params: StreamParams, onText?: (text: string) => void) {
+  const result = streamText({
+    ...params,
+    model: resolveModel(model),
+    abortSignal: AbortSignal.timeout(config.timeoutMs),
+    // Errors arrive as stream parts below and are logged by the caller
+    onError: () => {},
+  });
+  let text = '';
+  for await (const part of result.fullStream) {
+    if (part.type === 'start-step') {
+      // Only the last step's text is the answer; anything before a tool call is discarded
+      text = '';
+    } else if (part.type === 'text-delta') {
+      text += part.text;
+      onText?.(visibleText(text));
+    } else if (part.type === 'error') {
+      throw part.error;
+    } else if (part.type === 'abort') {
+      throw new Error(`${model} timed out after ${config.timeoutMs}ms`);
+    }
+  }
+  return { text: await result.text, steps: await result.steps };
+}
+
+// Try the primary model, then the fallback, each under the configured timeout.
+// A fallback starts its text from scratch, so `onText` may go back to empty.
+async function streamWithFallback(config: ModelConfig, params: StreamParams, onText?: (text: string) => void) {
+  const models = [config.primary, ...(config.fallback ? [config.fallback] : [])];
+  let lastError: unknown;
+  for (const model of models) {
+    try {
+      return { ...(await streamOnce(model, config, params, onText)), model };
+    } catch (error) {
+      lastError = error;
+      logger.llm.warn('Model failed', {
+        model,
+        timeoutMs: config.timeoutMs,
+        error: error instanceof Error ? error.message : String(error),
+        willFallBack: model !== models[models.length - 1],
+      });
+    }
+  }
+  throw lastError;
+}
+
+// `teamId` picks up the workspace's model overrides, if any.
+// `onText` receives the redacted answer so far as it is generated, without the confidence line
+// or the word still being written.
+export async function answerQuestion(
+  userId: string,
+  agentData: AgentProfile,
+  question: string,
+  history: ConversationTurn[] = [],
+  options: { teamId?: string | null; onText?: (text: string) => void } = {}
+): Promise<AgentAnswer> {
+  const config = getModelConfig(options.teamId);
+  const policy = getGuardrailPolicy();
+  const usedItems = new Map<string, ContextItem>();
+  const tools = createAgentTools(
+    async () => screenContextItems(await retrieveContext(userId, agentData, question), policy),
+    (items) => items.forEach((item) => usedItems.set(item.id, item))
+  );
+
+  logger.llm.info('Calling LLM', {
+    model: config.primary,
+    fallback: config.fallback,
+    questionLength: question.length,
+    historyTurns: history.length,
+    maxSteps: MAX_STEPS,
+  });
+  const startTime = Date.now();
+  const result = await streamWithFallback(config, {
+    system: `You are an AI assistant representing ${agentData.displayName}. Answer questions about their work using the provided tools to look up their calendar, Slack messages, Linear issues and GitHub pull requests. Only call the tools the question needs. Be helpful and concise. If you don't have enough information, say so. ${UNTRUSTED_DATA_INSTRUCTIONS} After each fact, cite the item it came from by its id in double brackets, e.g. [[linear:PROJ-123]]; only cite ids the tools returned. Today is ${new Date().toDateString()}. End your reply with a final line "Confidence: <number between 0 and 1>" rating how well the data supports your answer.`,
+    messages: [...historyMessages(history), { role: 'user', content: question }],
+    tools,
+    stopWhen: stepCountIs(MAX_STEPS),
+    maxOutputTokens: config.maxOutputTokens,
+    temperature: config.temperature,
+  }, options.onText && ((text) => options.onText?.(redactPartialAnswer(text, policy))));
+
+  const extracted = extractConfidence(result.text);
+  const cited = resolveCitations(extracted.answer, Array.from(usedItems.values()));
+  const { confidence } = extracted;
+  if (cited.unknownIds.length > 0) {
+    logger.llm.warn('Dropped citations of unknown items', { model: result.model, unknownIds: cited.unknownIds });
+  }
+
+  // Nothing secret leaves through the answer or the labels of what it cites
+  const { answer, redactions } = redactAnswer(cited.answer, policy);
+  const citations = cited.citations.map((citation) => ({ ...citation, label: redactAnswer(citation.label, policy).answer }));
+  if (redactions.length > 0) {
+    logger.guardrails.warn('Redacted answer', { stage: 'answer', userId, model: result.model, redactions });
+  }
+
+  logger.llm.info('LLM response received', {
+    model: result.model,
+    durationMs: Date.now() - startTime,
+    steps: result.steps.length,
+    toolCalls: result.steps.reduce((count, step) => count + step.toolCalls.length, 0),
+    answerLength: answer.length,
+    answerPreview: answer.substring(0, 100),
+    citations: citations.length,
+    confidence,
+  });
+
+  return {
+    answer,
+    confidence,
+    usedItems: Array.from(usedItems.values()),
+    citations,
+    steps: result.steps.length,
+    model: result.model,
+  };
+}
@@ -0,0 +1,77 @@
+// lib/llm/config.ts
+// Model settings from the environment, with optional per-workspace overrides:
+//   LLM_MODEL, LLM_FALLBACK_MODEL  "<provider>:<model>", e.g. deepseek:deepseek-chat
+//   LLM_TIMEOUT_MS, LLM_MAX_OUTPUT_TOKENS, LLM_TEMPERATURE
+//   LLM_WORKSPACE_OVERRIDES        JSON of Slack team ID -> any of the fields below
+
+import { logger } from '@/lib/logger';
+
+export interface ModelConfig {
+  primary: string;
+  // Tried when the primary fails or times out; null disables the fallback
+  fallback: string | null;
+  // Per attempt, so an answer can take up to twice this with a fallback
+  timeoutMs: number;
+  maxOutputTokens: number;
+  temperature: number;
+}
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  primary: 'deepseek:deepseek-chat',
+  fallback: null,
+  timeoutMs: 25 * 1000,
+  maxOutputTokens: 300,
+  temperature: 0.7,
+};
+
+function numberFrom(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function stringFrom(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Only the fields that are set and valid; everything else keeps its current value
+function parseOverrides(raw: Record<string, unknown>): Partial<ModelConfig> {
+  const fallback = raw.fallback === null ? null : stringFrom(raw.fallback);
+  const overrides: Partial<ModelConfig> = {
+    primary: stringFrom(raw.primary),
+    ...(fallback !== undefined && { fallback }),
+    timeoutMs: numberFrom(raw.timeoutMs),
+    maxOutputTokens: numberFrom(raw.maxOutputTokens),
+    temperature: numberFrom(raw.temperature),
+  };
+  return Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as Partial<ModelConfig>;
+}
+
+function workspaceOverrides(teamId: string): Partial<ModelConfig> {
+  const json = process.env.LLM_WORKSPACE_OVERRIDES;
+  if (!json) return {};
+  try {
+    const all = JSON.parse(json) as Record<string, unknown>;
+    const raw = all[teamId];
+    return raw && typeof raw === 'object' ? parseOverrides(raw as Record<string, unknown>) : {};
+  } catch (error) {
+    logger.llm.warn('Ignoring invalid LLM_WORKSPACE_OVERRIDES', { error: (error as Error).message });
+    return {};
+  }
+}
+
+export function getModelConfig(teamId?: string | null): ModelConfig {
+  const env = process.env;
+  return {
+    ...DEFAULT_MODEL_CONFIG,
+    ...parseOverrides({
+      primary: env.LLM_MODEL,
+      fallback: env.LLM_FALLBACK_MODEL,
+      timeoutMs: env.LLM_TIMEOUT_MS,
+      maxOutputTokens: env.LLM_MAX_OUTPUT_TOKENS,
+      temperature: env.LLM_TEMPERATURE,
+    }),
+    ...(teamId ? workspaceOverrides(teamId) : {}),
+  };
+}
@@ -0,0 +1,113 @@
+// lib/llm/mock.ts
+// Deterministic offline model for tests and local runs, selected as e.g. LLM_MODEL=mock:tools.
+//   mock:echo  - answers straight away, repeating the question
+//   mock:tools - first calls every tool that needs no input, then answers citing the first few items
+//   mock:fail  - always throws, to exercise the fallback model
+//   mock:slow  - never answers until aborted, to exercise the timeout
+
+import type { LanguageModel } from 'ai';
+
+type LanguageModelInstance = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelInstance['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelInstance['doGenerate']>>;
+type StreamPart = Awaited<ReturnType<LanguageModelInstance['doStream']>>['stream'] extends ReadableStream<infer T> ? T : never;
+
+export const MOCK_CONFIDENCE = 0.8;
+
+function lastUserText(options: CallOptions): string {
+  const message = [...options.prompt].reverse().find((item) => item.role === 'user');
+  if (!message || typeof message.content === 'string') return '';
+  return message.content.map((part) => part.type === 'text' ? part.text : '').join(' ').trim();
+}
+
+// Tool results already in the prompt: the items each returned
+function toolResults(options: CallOptions): Array<Array<{ id?: unknown }>> {
+  return options.prompt.flatMap((message) => message.role === 'tool'
+    ? message.content.map((part) => {
+      const output = part.output as { type: string; value?: unknown };
+      return output.type === 'json' && Array.isArray(output.value) ? output.value as Array<{ id?: unknown }> : [];
+    })
+    : []);
+}
+
+// Tools the mock can call without inventing input
+function inputlessTools(options: CallOptions): string[] {
+  return (options.tools ?? []).flatMap((tool) => {
+    if (tool.type !== 'function') return [];
+    const required = (tool.inputSchema as { required?: unknown[] }).required;
+    return !required || required.length === 0 ? [tool.name] : [];
+  });
+}
+
+function respond(modelName: string, options: CallOptions): GenerateResult {
+  const question = lastUserText(options);
+  const results = toolResults(options);
+  const items = results.flat();
+  const tools = modelName === 'tools' && results.length === 0 ? inputlessTools(options) : [];
+  // Cite the first few items, like a real answer would
+  const cited = items.slice(0, 3).map((item) => typeof item.id === 'string' ? ` [[${item.id}]]` : '').join('');
+
+  const content: GenerateResult['content'] = tools.length > 0
+    ? tools.map((toolName, index) => ({ type: 'tool-call', toolCallId: `mock-call-${index}`, toolName, input: '{}' }))
+    : [{
+      type: 'text',
+      text: `Mock answer to "${question}"` +
+        (results.length > 0 ? ` based on ${items.length} items${cited}.` : '.') +
+        `\nConfidence: ${MOCK_CONFIDENCE}`,
+    }];
+  const outputTokens = content.length;
+  return {
+    content,
+    finishReason: tools.length > 0 ? 'tool-calls' : 'stop',
+    usage: { inputTokens: question.length, outputTokens, totalTokens: question.length + outputTokens },
+    warnings: [],
+  };
+}
+
+async function run(modelName: string, options: CallOptions): Promise<GenerateResult> {
+  if (modelName === 'fail') {
+    throw new Error('mock:fail always fails');
+  }
+  if (modelName === 'slow') {
+    await new Promise<never>((_, reject) => {
+      options.abortSignal?.addEventListener('abort', () => reject(options.abortSignal?.reason ?? new Error('Aborted')));
+    });
+  }
+  return respond(modelName, options);
+}
+
+export function createMockModel(modelName: string): LanguageModelInstance {
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId: modelName,
+    supportedUrls: {},
+    doGenerate: (options) => run(modelName, options),
+    async doStream(options) {
+      const result = await run(modelName, options);
+      const parts: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+      result.content.forEach((part, index) => {
+        if (part.type === 'text') {
+          const id = `mock-text-${index}`;
+          parts.push({ type: 'text-start', id });
+          // One word at a time, like a real model
+          for (const word of part.text.split(/(?<= )/)) {
+            parts.push({ type: 'text-delta', id, delta: word });
+          }
+          parts.push({ type: 'text-end', id });
+        } else if (part.type === 'tool-call') {
+          parts.push(part);
+        }
+      });
+      parts.push({ type: 'finish', finishReason: result.finishReason, usage: result.usage });
+      return {
+        stream: new ReadableStream<StreamPart>({
+          start(controller) {
+            parts.forEach((part) => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
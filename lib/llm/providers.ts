@@ -0,0 +1,38 @@
+// lib/llm/providers.ts
+// Registry of model providers, so models are named in config as "<provider>:<model>"
+
+import { deepseek } from '@ai-sdk/deepseek';
+import type { LanguageModel } from 'ai';
+import { createMockModel } from './mock';
+
+export type LanguageModelInstance = Exclude<LanguageModel, string>;
+
+// Builds a model from the part of the name after the provider prefix
+export type ModelFactory = (modelName: string) => LanguageModelInstance;
+
+export class UnknownModelError extends Error {
+  constructor(spec: string) {
+    super(`Unknown model "${spec}"; expected <provider>:<model> with one of: ${Object.keys(providers).join(', ')}`);
+    this.name = 'UnknownModelError';
+  }
+}
+
+const providers: Record<string, ModelFactory> = {
+  deepseek: (modelName) => deepseek(modelName),
+  mock: createMockModel,
+};
+
+// Add or replace a provider, e.g. to use another AI SDK package
+export function registerModelProvider(name: string, factory: ModelFactory): void {
+  providers[name] = factory;
+}
+
+export function resolveModel(spec: string): LanguageModelInstance {
+  const separator = spec.indexOf(':');
+  const factory = separator > 0 ? providers[spec.slice(0, separator)] : undefined;
+  const modelName = spec.slice(separator + 1);
+  if (!factory || !modelName) {
+    throw new UnknownModelError(spec);
+  }
+  return factory(modelName);
+}
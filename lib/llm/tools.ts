@@ -0,0 +1,132 @@
+// lib/llm/tools.ts
+// Tools the agent can call to look up its owner's data on demand
+
+import { jsonSchema, tool, type ToolSet } from 'ai';
+import { delimitUntrusted } from '@/lib/guardrails/checks';
+import { logger } from '@/lib/logger';
+import type { ContextItem, ContextSource } from '@/lib/context/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RESULTS = 15;
+
+export type CalendarRange = 'past_week' | 'today' | 'tomorrow' | 'this_week' | 'next_week';
+
+const CALENDAR_RANGES: CalendarRange[] = ['past_week', 'today', 'tomorrow', 'this_week', 'next_week'];
+
+function rangeBounds(range: CalendarRange, now: Date): [number, number] {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  // Weeks start on Monday
+  const startOfWeek = startOfToday - ((now.getDay() + 6) % 7) * DAY_MS;
+  switch (range) {
+    case 'past_week':
+      return [startOfToday - 7 * DAY_MS, now.getTime()];
+    case 'today':
+      return [startOfToday, startOfToday + DAY_MS];
+    case 'tomorrow':
+      return [startOfToday + DAY_MS, startOfToday + 2 * DAY_MS];
+    case 'this_week':
+      return [startOfWeek, startOfWeek + 7 * DAY_MS];
+    case 'next_week':
+      return [startOfWeek + 7 * DAY_MS, startOfWeek + 14 * DAY_MS];
+  }
+}
+
+// Items without a timestamp (static profile data) can't be placed in a range, so they always match
+function inRange(item: ContextItem, [start, end]: [number, number]): boolean {
+  if (!item.timestamp) return true;
+  const time = Date.parse(item.timestamp);
+  return Number.isNaN(time) || (time >= start && time < end);
+}
+
+function matchesAll(text: string, terms: string[]): boolean {
+  const haystack = text.toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+// Item text comes from other people, so it is delimited as data the model must not follow
+function toResult(items: ContextItem[]) {
+  return items.slice(0, MAX_RESULTS).map(({ id, text, timestamp, url }) => ({ id, text: delimitUntrusted(text), timestamp, url }));
+}
+
+// `loadItems` is called at most once per agent run; `onItemsUsed` receives everything a tool returned
+export function createAgentTools(
+  loadItems: () => Promise<ContextItem[]>,
+  onItemsUsed: (items: ContextItem[]) => void,
+  now: Date = new Date()
+): ToolSet {
+  let itemsPromise: Promise<ContextItem[]> | null = null;
+  const itemsFrom = async (source: ContextSource) => {
+    if (!itemsPromise) itemsPromise = loadItems();
+    return (await itemsPromise).filter((item) => item.source === source);
+  };
+
+  const run = async <INPUT>(name: string, input: INPUT, lookup: () => Promise<ContextItem[]>) => {
+    const startTime = Date.now();
+    const items = (await lookup()).slice(0, MAX_RESULTS);
+    onItemsUsed(items);
+    logger.llm.info('Tool call', {
+      tool: name,
+      input: input as Record<string, unknown>,
+      resultCount: items.length,
+      durationMs: Date.now() - startTime,
+    });
+    return toResult(items);
+  };
+
+  return {
+    getCalendar: tool({
+      description: 'List calendar events in a time range.',
+      inputSchema: jsonSchema<{ range: CalendarRange }>({
+        type: 'object',
+        properties: {
+          range: { type: 'string', enum: CALENDAR_RANGES },
+        },
+        required: ['range'],
+        additionalProperties: false,
+      }),
+      execute: (input) => run('getCalendar', input, async () => {
+        const bounds = rangeBounds(input.range, now);
+        return (await itemsFrom('calendar')).filter((item) => inRange(item, bounds));
+      }),
+    }),
+    searchMessages: tool({
+      description: 'Search recent Slack messages by keywords. Use an empty query to list the latest messages.',
+      inputSchema: jsonSchema<{ query: string }>({
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+        },
+        required: ['query'],
+        additionalProperties: false,
+      }),
+      execute: (input) => run('searchMessages', input, async () => {
+        const terms = input.query.toLowerCase().split(/\s+/).filter(Boolean);
+        return (await itemsFrom('slack')).filter((item) => matchesAll(item.text, terms));
+      }),
+    }),
+    getIssues: tool({
+      description: 'List assigned Linear issues, optionally filtered by status (e.g. "In Progress", "Done").',
+      inputSchema: jsonSchema<{ status?: string }>({
+        type: 'object',
+        properties: {
+          status: { type: 'string' },
+        },
+        additionalProperties: false,
+      }),
+      execute: (input) => run('getIssues', input, async () => {
+        const issues = await itemsFrom('linear');
+        const status = input.status?.trim().toLowerCase();
+        return status ? issues.filter((item) => item.text.toLowerCase().includes(status)) : issues;
+      }),
+    }),
+    getPullRequests: tool({
+      description: 'List open GitHub pull requests and issues involving this person.',
+      inputSchema: jsonSchema<Record<string, never>>({
+        type: 'object',
+        properties: {},
+        additionalProperties: false,
+      }),
+      execute: (input) => run('getPullRequests', input, () => itemsFrom('github')),
+    }),
+  };
+}
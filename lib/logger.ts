@@ -66,5 +66,12 @@ export const logger = {
   mention: createLogger('MENTION'),
   parse: createLogger('PARSE'),
   llm: createLogger('LLM'),
+  agents: createLogger('AGENTS'),
+  context: createLogger('CONTEXT'),
+  history: createLogger('HISTORY'),
+  jobs: createLogger('JOBS'),
+  composio: createLogger('COMPOSIO'),
+  guardrails: createLogger('GUARDRAILS'),
+  retrieval: createLogger('RETRIEVAL'),
 };
 
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { PrivacySettings } from '@/lib/agents/types';
+import type { ContextItem } from '@/lib/context/types';
+import { applyPrivacy, checkAccess, DEFAULT_PRIVACY_SETTINGS } from './settings';
+
+const settings = (overrides: Partial<PrivacySettings> = {}): PrivacySettings => ({ ...DEFAULT_PRIVACY_SETTINGS, ...overrides });
+
+describe('checkAccess', () => {
+  it.each([
+    { name: 'anyone anywhere by default', settings: settings(), askerId: 'U9', channel: 'C9', denial: null },
+    { name: 'an allowed requester', settings: settings({ allowedRequesters: ['U1'] }), askerId: 'U1', channel: 'C1', denial: null },
+    { name: 'another requester', settings: settings({ allowedRequesters: ['U1'] }), askerId: 'U2', channel: 'C1', denial: { type: 'requester', askerId: 'U2' } },
+    { name: 'an unknown requester when some are allowed', settings: settings({ allowedRequesters: ['U1'] }), askerId: null, channel: 'C1', denial: { type: 'requester', askerId: null } },
+    { name: 'an unknown requester when everyone is allowed', settings: settings(), askerId: null, channel: 'C1', denial: null },
+    { name: 'an allowed channel', settings: settings({ allowedChannels: ['C1'] }), askerId: 'U2', channel: 'C1', denial: null },
+    { name: 'another channel', settings: settings({ allowedChannels: ['C1'] }), askerId: 'U2', channel: 'C2', denial: { type: 'channel', channel: 'C2' } },
+    { name: 'a DM despite a channel list', settings: settings({ allowedChannels: ['C1'] }), askerId: 'U2', channel: 'D1', denial: null },
+    { name: 'a private ask despite a channel list', settings: settings({ allowedChannels: ['C1'] }), askerId: 'U2', channel: null, denial: null },
+    { name: 'a DM from another requester', settings: settings({ allowedRequesters: ['U1'], allowedChannels: ['C1'] }), askerId: 'U2', channel: 'D1', denial: { type: 'requester', askerId: 'U2' } },
+  ])('$name', ({ settings, askerId, channel, denial }) => {
+    expect(checkAccess(settings, { askerId, channel })).toEqual(denial);
+  });
+});
+
+describe('applyPrivacy', () => {
+  const event: ContextItem = {
+    id: 'calendar:1',
+    source: 'calendar',
+    text: 'Interview with Acme',
+    timestamp: '2026-10-19T10:00:00Z',
+    endTimestamp: '2026-10-19T11:00:00Z',
+    url: 'https://calendar.test/1',
+  };
+  const privateEvent: ContextItem = { ...event, id: 'calendar:2', private: true };
+  const channelMessage: ContextItem = { id: 'slack:C1:1', source: 'slack', text: 'Shipped the importer' };
+  const directMessage: ContextItem = { id: 'slack:D1:1', source: 'slack', text: 'Feeling burnt out', private: true };
+  const issue: ContextItem = { id: 'linear:PROJ-1', source: 'linear', text: 'PROJ-1 Ship the importer' };
+  const items = [event, privateEvent, channelMessage, directMessage, issue];
+
+  it('passes everything but private events through by default', () => {
+    expect(applyPrivacy(items, settings())).toEqual([
+      event,
+      { id: 'calendar:2', source: 'calendar', text: '2026-10-19T10:00:00Z: Private event', timestamp: event.timestamp, endTimestamp: event.endTimestamp, private: true },
+      channelMessage,
+      directMessage,
+      issue,
+    ]);
+  });
+
+  it('shows private events as they are when masking is off', () => {
+    expect(applyPrivacy([privateEvent], settings({ maskPrivateEvents: false }))).toEqual([privateEvent]);
+  });
+
+  it('drops every item from a hidden source', () => {
+    expect(applyPrivacy(items, settings({ hiddenSources: ['calendar', 'linear'] }))).toEqual([channelMessage, directMessage]);
+  });
+
+  it('drops private channels and DMs when asked to', () => {
+    expect(applyPrivacy(items, settings({ excludePrivateSlack: true })).map((item) => item.id)).toEqual([
+      'calendar:1', 'calendar:2', 'slack:C1:1', 'linear:PROJ-1',
+    ]);
+  });
+
+  it('shares only when the owner is busy, whether or not an event is private', () => {
+    const busy = applyPrivacy([event, privateEvent], settings({ calendarDetail: 'busy' }));
+
+    expect(busy.map((item) => item.text)).toEqual([
+      '2026-10-19T10:00:00Z to 2026-10-19T11:00:00Z: Busy',
+      '2026-10-19T10:00:00Z to 2026-10-19T11:00:00Z: Busy',
+    ]);
+    expect(busy.some((item) => item.url)).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+// lib/privacy/settings.ts
+// Enforces each owner's privacy settings: who may ask, and which context the agent may see
+
+import type { PrivacySettings } from '@/lib/agents/types';
+import { SOURCE_LABELS, type ContextItem, type ContextSource } from '@/lib/context/types';
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  hiddenSources: [],
+  calendarDetail: 'full',
+  maskPrivateEvents: true,
+  excludePrivateSlack: false,
+  allowedRequesters: [],
+  allowedChannels: [],
+};
+
+const CONTEXT_SOURCES = Object.keys(SOURCE_LABELS) as ContextSource[];
+
+export type AccessDenial =
+  | { type: 'requester'; askerId: string | null }
+  | { type: 'channel'; channel: string };
+
+// DM channel IDs start with D; answers there are only seen by the asker
+function isDirectChannel(channel: string): boolean {
+  return channel.startsWith('D');
+}
+
+// Whether this person may ask the agent here. `channel` is null for private asks (e.g. `/doppel ask`).
+export function checkAccess(
+  settings: PrivacySettings,
+  request: { askerId: string | null; channel: string | null }
+): AccessDenial | null {
+  if (settings.allowedRequesters.length > 0 && (!request.askerId || !settings.allowedRequesters.includes(request.askerId))) {
+    return { type: 'requester', askerId: request.askerId };
+  }
+  if (
+    settings.allowedChannels.length > 0 &&
+    request.channel &&
+    !isDirectChannel(request.channel) &&
+    !settings.allowedChannels.includes(request.channel)
+  ) {
+    return { type: 'channel', channel: request.channel };
+  }
+  return null;
+}
+
+function busyItem(item: ContextItem): ContextItem {
+  const span = item.timestamp ? `${item.timestamp}${item.endTimestamp ? ` to ${item.endTimestamp}` : ''}: ` : '';
+  return { id: item.id, source: item.source, text: `${span}Busy`, timestamp: item.timestamp, endTimestamp: item.endTimestamp };
+}
+
+function maskedItem(item: ContextItem): ContextItem {
+  const span = item.timestamp ? `${item.timestamp}: ` : '';
+  return { id: item.id, source: item.source, text: `${span}Private event`, timestamp: item.timestamp, endTimestamp: item.endTimestamp, private: true };
+}
+
+// Drop or redact items before the model can see them
+export function applyPrivacy(items: ContextItem[], settings: PrivacySettings): ContextItem[] {
+  return items.flatMap((item) => {
+    if (settings.hiddenSources.includes(item.source)) return [];
+    if (item.source === 'slack' && item.private && settings.excludePrivateSlack) return [];
+    if (item.source === 'calendar') {
+      if (settings.calendarDetail === 'busy') return [busyItem(item)];
+      if (item.private && settings.maskPrivateEvents) return [maskedItem(item)];
+    }
+    return [item];
+  });
+}
+
+// Validate settings coming from the setup page or API; returns null if malformed
+export function parsePrivacySettings(input: unknown): PrivacySettings | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = { ...DEFAULT_PRIVACY_SETTINGS, ...(input as Record<string, unknown>) };
+  const strings = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+      ? (value as string[]).map((item) => item.trim()).filter(Boolean)
+      : null;
+
+  const hiddenSources = strings(raw.hiddenSources);
+  const allowedRequesters = strings(raw.allowedRequesters);
+  const allowedChannels = strings(raw.allowedChannels);
+  if (!hiddenSources || !allowedRequesters || !allowedChannels) return null;
+  if (!hiddenSources.every((source) => CONTEXT_SOURCES.includes(source as ContextSource))) return null;
+  if (raw.calendarDetail !== 'full' && raw.calendarDetail !== 'busy') return null;
+  if (typeof raw.maskPrivateEvents !== 'boolean' || typeof raw.excludePrivateSlack !== 'boolean') return null;
+
+  return {
+    hiddenSources: hiddenSources as ContextSource[],
+    calendarDetail: raw.calendarDetail,
+    maskPrivateEvents: raw.maskPrivateEvents,
+    excludePrivateSlack: raw.excludePrivateSlack,
+    allowedRequesters,
+    allowedChannels,
+  };
+}
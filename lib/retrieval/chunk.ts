@@ -0,0 +1,32 @@
+// lib/retrieval/chunk.ts
+// Splits long item text into overlapping pieces so each embedding covers one topic
+
+const MAX_CHUNK_LENGTH = 500;
+// Carried over from the end of the previous chunk so a sentence split across two still matches
+const OVERLAP = 80;
+
+// Most items are one line and come back as a single chunk
+export function chunkText(text: string): string[] {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= MAX_CHUNK_LENGTH) return clean ? [clean] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(start + MAX_CHUNK_LENGTH, clean.length);
+    if (end < clean.length) {
+      // Prefer ending at a sentence, then at a word
+      const window = clean.slice(start, end);
+      const sentence = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+      const space = window.lastIndexOf(' ');
+      const cut = sentence > MAX_CHUNK_LENGTH / 2 ? sentence + 1 : space > MAX_CHUNK_LENGTH / 2 ? space : window.length;
+      end = start + cut;
+    }
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+    // Back up to a word boundary so the overlap doesn't start mid-word
+    const overlapStart = clean.indexOf(' ', end - OVERLAP);
+    start = overlapStart > start && overlapStart < end ? overlapStart + 1 : end;
+  }
+  return chunks;
+}
@@ -0,0 +1,146 @@
+// lib/retrieval/embeddings.ts
+// Registry of embedding providers, named in config as "<provider>:<model>" like the chat models.
+// "local:hash" needs no network or API key; "openai:<model>" calls any OpenAI-compatible /embeddings API.
+
+const DEFAULT_EMBEDDING_MODEL = 'local:hash';
+const LOCAL_DIMENSIONS = 256;
+// Requests to remote providers are split into batches of this many texts
+const BATCH_SIZE = 64;
+// Per request. Questions are embedded before the model is called, so a hung API would stall every answer.
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export interface Embedder {
+  // The spec it was built from; vectors from different embedders can't be compared
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbedderFactory = (modelName: string, spec: string) => Embedder;
+
+export class UnknownEmbeddingModelError extends Error {
+  constructor(spec: string) {
+    super(`Unknown embedding model "${spec}"; expected <provider>:<model> with one of: ${Object.keys(providers).join(', ')}`);
+    this.name = 'UnknownEmbeddingModelError';
+  }
+}
+
+// Words too common to say anything about what an item is about
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'going', 'has', 'have',
+  'he', 'her', 'his', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'she', 'so',
+  'that', 'the', 'their', 'them', 'they', 'this', 'to', 'up', 'was', 'we', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map((value) => value / length);
+}
+
+// Hashed bag of words, word pairs and character trigrams: no semantics beyond shared vocabulary,
+// but good enough to rank a few thousand items and fully offline
+function hashingVector(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const bucket = hash(feature);
+    // The top bit picks the sign so collisions tend to cancel out
+    vector[bucket % dimensions] += bucket & 0x80000000 ? -weight : weight;
+  };
+
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((word) => !STOPWORDS.has(word));
+  words.forEach((word, index) => {
+    add(`w:${word}`, 1);
+    if (index > 0) add(`b:${words[index - 1]} ${word}`, 0.5);
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`c:${padded.slice(i, i + 3)}`, 0.25);
+    }
+  });
+  return normalize(vector);
+}
+
+function createLocalEmbedder(modelName: string, spec: string): Embedder {
+  if (modelName !== 'hash') {
+    throw new UnknownEmbeddingModelError(spec);
+  }
+  return {
+    id: spec,
+    async embed(texts) {
+      return texts.map((text) => hashingVector(text, LOCAL_DIMENSIONS));
+    },
+  };
+}
+
+// Configured with EMBEDDING_API_KEY, EMBEDDING_API_URL (default: OpenAI) and EMBEDDING_TIMEOUT_MS
+function createOpenAIEmbedder(modelName: string, spec: string): Embedder {
+  const baseUrl = (process.env.EMBEDDING_API_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const timeoutMs = Number(process.env.EMBEDDING_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+  return {
+    id: spec,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+        const response = await fetch(`${baseUrl}/embeddings`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${process.env.EMBEDDING_API_KEY ?? ''}`,
+          },
+          body: JSON.stringify({ model: modelName, input: texts.slice(start, start + BATCH_SIZE) }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+        if (!response.ok) {
+          throw new Error(`Embedding API returned ${response.status}`);
+        }
+        const body = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+        const batch = [...body.data].sort((a, b) => a.index - b.index);
+        vectors.push(...batch.map((entry) => normalize(entry.embedding)));
+      }
+      return vectors;
+    },
+  };
+}
+
+const providers: Record<string, EmbedderFactory> = {
+  local: createLocalEmbedder,
+  openai: createOpenAIEmbedder,
+};
+
+// Add or replace a provider, e.g. to embed with a self-hosted model
+export function registerEmbeddingProvider(name: string, factory: EmbedderFactory): void {
+  providers[name] = factory;
+}
+
+export function resolveEmbedder(spec: string): Embedder {
+  const separator = spec.indexOf(':');
+  const factory = separator > 0 ? providers[spec.slice(0, separator)] : undefined;
+  const modelName = spec.slice(separator + 1);
+  if (!factory || !modelName) {
+    throw new UnknownEmbeddingModelError(spec);
+  }
+  return factory(modelName, spec);
+}
+
+// Selected with EMBEDDING_MODEL (default: local:hash)
+export function getEmbedder(): Embedder {
+  return resolveEmbedder(process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL);
+}
+
+// Both vectors are normalized, so the dot product is the cosine similarity
+export function similarity(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryAgentProfileStore, getAgentProfileStore, setAgentProfileStore } from '@/lib/agents/store';
+import type { AgentProfile } from '@/lib/agents/types';
+import { createConnectorContextProvider, createFakeConnector, setContextProvider } from '@/lib/context/provider';
+import { createInMemoryJobQueue, getJobQueue, setJobQueue } from '@/lib/jobs/queue';
+import { drainQueue } from '@/lib/jobs/worker';
+import { createInMemoryVectorIndexStore, getVectorIndexStore, setVectorIndexStore } from '@/lib/retrieval/store';
+import { createInMemoryEventDedupStore, setEventDedupStore } from '@/lib/slack/dedup';
+import { retrieveContext } from './ingest';
+
+describe('retrieveContext', () => {
+  let agent: AgentProfile;
+
+  beforeEach(async () => {
+    setAgentProfileStore(createInMemoryAgentProfileStore({
+      U1: { name: 'jane', displayName: 'Jane', data: { calendar: [], slack: [], linear: ['PROJ-1 Ship the importer'] } },
+    }));
+    setContextProvider(createConnectorContextProvider([]));
+    setVectorIndexStore(createInMemoryVectorIndexStore());
+    setJobQueue(createInMemoryJobQueue());
+    setEventDedupStore(createInMemoryEventDedupStore());
+    agent = (await getAgentProfileStore().get('U1'))!;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    setAgentProfileStore(null);
+    setContextProvider(null);
+    setVectorIndexStore(null);
+    setJobQueue(null);
+    setEventDedupStore(null);
+  });
+
+  it('gives up on a hung embeddings API and answers from the live items', async () => {
+    vi.stubEnv('EMBEDDING_MODEL', 'openai:text-embedding-3-small');
+    vi.stubEnv('EMBEDDING_TIMEOUT_MS', '20');
+    // Never responds; only the request's own abort signal ends it
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    })));
+
+    const items = await retrieveContext('U1', agent, 'what is Jane shipping?');
+
+    expect(items.map((item) => item.id)).toEqual(['profile:linear:0']);
+  });
+
+  it('answers from the connectors and queues one refresh until the owner has an index', async () => {
+    vi.stubEnv('EMBEDDING_MODEL', 'local:hash');
+    const fetch = vi.fn(createFakeConnector('github', {
+      U1: [{ id: 'github:acme/app#7', source: 'github', text: 'PR #7 Add CSV import' }],
+    }).fetch);
+    setContextProvider(createConnectorContextProvider([{ source: 'github', fetch }]));
+
+    for (let asked = 0; asked < 2; asked++) {
+      const items = await retrieveContext('U1', agent, 'what is Jane shipping?');
+      expect(items.map((item) => item.id).sort()).toEqual(['github:acme/app#7', 'profile:linear:0']);
+    }
+
+    // Answering never writes the index
+    expect(await getVectorIndexStore().get('U1')).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    expect(await drainQueue({ budgetMs: 60_000 })).toEqual({ processed: 1 });
+    fetch.mockClear();
+
+    const items = await retrieveContext('U1', agent, 'what is Jane shipping?');
+    expect(items.map((item) => item.id).sort()).toEqual(['github:acme/app#7', 'profile:linear:0']);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(await getJobQueue().nextRunAt()).toBeNull();
+  });
+});
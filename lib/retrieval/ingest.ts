@@ -0,0 +1,162 @@
+// lib/retrieval/ingest.ts
+// Keeps each owner's vector index up to date from the connectors and picks the items relevant to a question.
+// Connectors only return recent items, so the index is what lets the agent remember older work.
+// Indexing runs in jobs (the nightly cron, /doppel reindex, or a refresh a question queued), never
+// while someone waits for an answer.
+
+import { createHash } from 'crypto';
+import { getAgentData, getAllAgentIds } from '@/lib/agents/profiles';
+import type { AgentProfile } from '@/lib/agents/types';
+import { gatherContext, profileContextItems } from '@/lib/context/provider';
+import type { ContextItem } from '@/lib/context/types';
+import { getJobQueue } from '@/lib/jobs/queue';
+import { logger } from '@/lib/logger';
+import { applyPrivacy, DEFAULT_PRIVACY_SETTINGS } from '@/lib/privacy/settings';
+import { getEventDedupStore } from '@/lib/slack/dedup';
+import { chunkText } from './chunk';
+import { getEmbedder, type Embedder } from './embeddings';
+import { getVectorIndexStore, type IndexedItem, type SearchResult } from './store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TOP_K = 30;
+// An index older than this gets a refresh queued when someone asks
+const REFRESH_AFTER_MS = 60 * 60 * 1000;
+
+export interface IndexResult {
+  // Items embedded in this run
+  indexed: number;
+  // Items already in the index with the same content
+  unchanged: number;
+  total: number;
+}
+
+function contentHash(item: ContextItem): string {
+  const { text, timestamp, endTimestamp, url, private: isPrivate } = item;
+  return createHash('sha256').update(JSON.stringify([text, timestamp, endTimestamp, url, isPrivate])).digest('hex');
+}
+
+// Five decimals is plenty for ranking and keeps the index file small
+function compact(vector: number[]): number[] {
+  return vector.map((value) => Math.round(value * 1e5) / 1e5);
+}
+
+// Embed and store the items that are new or changed since the last run
+export async function indexItems(
+  userId: string,
+  items: ContextItem[],
+  embedder: Embedder = getEmbedder()
+): Promise<IndexResult> {
+  const store = getVectorIndexStore();
+  const existing = await store.get(userId);
+  const known = existing?.embedder === embedder.id ? existing.items : {};
+
+  const changed = items.filter((item) => known[item.id]?.hash !== contentHash(item));
+  if (changed.length === 0) {
+    return { indexed: 0, unchanged: items.length, total: Object.keys(known).length };
+  }
+
+  const chunked = changed.map((item) => ({ item, texts: chunkText(item.text) }));
+  const vectors = await embedder.embed(chunked.flatMap(({ texts }) => texts));
+  const now = new Date().toISOString();
+  let offset = 0;
+  const entries: IndexedItem[] = chunked.map(({ item, texts }) => {
+    const chunks = texts.map((text, index) => ({ text, vector: compact(vectors[offset + index]) }));
+    offset += texts.length;
+    return { item, hash: contentHash(item), chunks, indexedAt: now };
+  });
+
+  const total = await store.upsert(userId, embedder.id, entries);
+  const result = { indexed: entries.length, unchanged: items.length - entries.length, total };
+  logger.retrieval.info('Indexed items', { userId, embedder: embedder.id, ...result });
+  return result;
+}
+
+// Fetch the owner's current items from the connectors and add them to the index
+export async function refreshIndex(userId: string): Promise<IndexResult> {
+  const agent = await getAgentData(userId);
+  if (!agent) {
+    return { indexed: 0, unchanged: 0, total: 0 };
+  }
+  return indexItems(userId, await gatherContext(userId, agent, agent.privacy));
+}
+
+// Start over, e.g. after items were deleted at the source or the embedding model changed
+export async function reindex(userId: string): Promise<IndexResult> {
+  await getVectorIndexStore().clear(userId);
+  logger.retrieval.info('Cleared index', { userId });
+  return refreshIndex(userId);
+}
+
+// Queue a refresh of every owner, so history builds up even for agents nobody asked lately.
+// Each runs as its own job, so one slow owner can't use up another's time.
+export async function queueIndexRefreshes(): Promise<{ queued: number }> {
+  const userIds = await getAllAgentIds();
+  for (const userId of userIds) {
+    await getJobQueue().enqueue('refresh_index', { userId });
+  }
+  return { queued: userIds.length };
+}
+
+// Queue a refresh for an owner whose index is missing or stale, at most once per REFRESH_AFTER_MS
+async function requestRefresh(userId: string): Promise<void> {
+  if (await getEventDedupStore().claim([`index-refresh:${userId}`], REFRESH_AFTER_MS)) {
+    await getJobQueue().enqueue('refresh_index', { userId });
+    logger.retrieval.info('Queued index refresh', { userId });
+  }
+}
+
+// Calendar questions ("what's on tomorrow?") rarely share words with the events, so events
+// in the range the calendar tool covers are always included
+function isNearNow(item: ContextItem, now: number): boolean {
+  if (item.source !== 'calendar' || !item.timestamp) return false;
+  const time = Date.parse(item.timestamp);
+  return time >= now - 7 * DAY_MS && time < now + 14 * DAY_MS;
+}
+
+// The items the agent sees for one question: the top-k most similar from the index, plus upcoming
+// events and the profile's own items. Only reads the index; indexing happens in the refresh jobs.
+// Until an owner has an index built by the current embedder, the connectors are asked directly.
+export async function retrieveContext(userId: string, agent: AgentProfile, question: string): Promise<ContextItem[]> {
+  const privacy = agent.privacy ?? DEFAULT_PRIVACY_SETTINGS;
+
+  let result: SearchResult | null;
+  try {
+    const embedder = getEmbedder();
+    const [vector] = await embedder.embed([question]);
+    const topK = Number(process.env.RETRIEVAL_TOP_K) || DEFAULT_TOP_K;
+    const now = Date.now();
+    result = await getVectorIndexStore().search(userId, embedder.id, vector, topK, (item) => isNearNow(item, now));
+  } catch (error) {
+    // The agent can still answer from what the connectors return
+    logger.retrieval.error('Retrieval failed, using live context', error as Error, { userId });
+    return gatherContext(userId, agent, privacy);
+  }
+
+  if (!result || Date.now() - Date.parse(result.updatedAt) > REFRESH_AFTER_MS) {
+    // Answering matters more than refreshing; the nightly cron catches up regardless
+    await requestRefresh(userId).catch((error) => {
+      logger.retrieval.error('Failed to queue index refresh', error as Error, { userId });
+    });
+  }
+  if (!result) {
+    logger.retrieval.info('No index yet, using live context', { userId });
+    return gatherContext(userId, agent, privacy);
+  }
+
+  const { hits } = result;
+  const selected = new Map<string, ContextItem>();
+  // Profile items are edited on the setup page, so the current ones win over what was indexed
+  for (const item of [...hits.map((hit) => hit.item), ...profileContextItems(agent)]) {
+    selected.set(item.id, item);
+  }
+  // Settings may have been tightened since older items were indexed
+  const items = applyPrivacy(Array.from(selected.values()), privacy);
+  logger.retrieval.info('Retrieved context', {
+    userId,
+    hitCount: hits.length,
+    itemCount: items.length,
+    topScore: hits[0]?.score,
+    indexedAt: result.updatedAt,
+  });
+  return items;
+}
@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RedisClient } from '@/lib/storage/redis';
+import { createFileVectorIndexStore, createRedisVectorIndexStore, type IndexedItem } from './store';
+
+const entry = (id: string, vector: number[], text = id): IndexedItem => ({
+  item: { id, source: 'linear', text },
+  hash: text,
+  chunks: [{ text, vector }],
+  indexedAt: new Date().toISOString(),
+});
+
+// Just enough of Redis for the index: hashes
+function createFakeRedis(): RedisClient {
+  const hashes = new Map<string, Record<string, string>>();
+  return {
+    async command([name, key, ...args]) {
+      const hash = hashes.get(String(key)) ?? {};
+      switch (name) {
+        case 'HGETALL':
+          return Object.entries(hash).flat();
+        case 'HMGET':
+          return args.map((field) => hash[String(field)] ?? null);
+        case 'HSET':
+          for (let i = 0; i < args.length; i += 2) hash[String(args[i])] = String(args[i + 1]);
+          hashes.set(String(key), hash);
+          return args.length / 2;
+        case 'HLEN':
+          return Object.keys(hash).length;
+        case 'HDEL':
+          args.forEach((field) => delete hash[String(field)]);
+          return args.length;
+        case 'DEL':
+          return Number(hashes.delete(String(key)));
+      }
+      throw new Error(`Unsupported command ${name}`);
+    },
+  };
+}
+
+describe('file vector index store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'index-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const lines = async () => (await fs.readFile(path.join(dir, 'U1.jsonl'), 'utf8')).trim().split('\n');
+
+  it('appends only the items a refresh adds, and another instance reads them all back', async () => {
+    const store = createFileVectorIndexStore(dir);
+
+    expect(await store.upsert('U1', 'local:hash', [entry('a', [1, 0]), entry('b', [0, 1])])).toBe(2);
+    const before = await lines();
+    expect(await store.upsert('U1', 'local:hash', [entry('c', [1, 1])])).toBe(3);
+
+    expect((await lines()).slice(0, before.length)).toEqual(before);
+    const index = await createFileVectorIndexStore(dir).get('U1');
+    expect(Object.keys(index!.items).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('drops items from another embedder', async () => {
+    const store = createFileVectorIndexStore(dir);
+    await store.upsert('U1', 'local:hash', [entry('a', [1, 0])]);
+
+    expect(await store.upsert('U1', 'openai:small', [entry('b', [0, 1])])).toBe(1);
+
+    expect(await store.search('U1', 'local:hash', [0, 1], 5)).toBeNull();
+    const result = await store.search('U1', 'openai:small', [0, 1], 5);
+    expect(result!.hits.map((hit) => hit.item.id)).toEqual(['b']);
+  });
+
+  it('compacts the log once replaced items make up most of it', async () => {
+    const store = createFileVectorIndexStore(dir);
+    for (let version = 0; version < 5; version++) {
+      await store.upsert('U1', 'local:hash', [entry('a', [1, 0], `a v${version}`)]);
+    }
+
+    expect((await lines()).length).toBeLessThanOrEqual(3);
+    expect((await store.get('U1'))!.items.a.item.text).toBe('a v4');
+  });
+
+  it('forgets everything on clear', async () => {
+    const store = createFileVectorIndexStore(dir);
+    await store.upsert('U1', 'local:hash', [entry('a', [1, 0])]);
+
+    await store.clear('U1');
+
+    expect(await store.get('U1')).toBeNull();
+    expect(await store.upsert('U1', 'local:hash', [entry('b', [0, 1])])).toBe(1);
+  });
+});
+
+describe('Redis vector index store', () => {
+  it('sets only the items a refresh adds', async () => {
+    const redis = createFakeRedis();
+    const command = vi.spyOn(redis, 'command');
+    const store = createRedisVectorIndexStore('index', () => redis);
+    await store.upsert('U1', 'local:hash', [entry('a', [1, 0]), entry('b', [0, 1])]);
+    command.mockClear();
+
+    expect(await store.upsert('U1', 'local:hash', [entry('c', [1, 1])])).toBe(3);
+
+    const writes = command.mock.calls.filter(([[name, key]]) => name === 'HSET' && key === 'doppel:index:U1:items');
+    expect(writes).toHaveLength(1);
+    expect(writes[0][0]).toHaveLength(4);
+  });
+
+  it('returns the top hits plus every other item the caller always wants', async () => {
+    const redis = createFakeRedis();
+    const store = createRedisVectorIndexStore('index', () => redis);
+    await store.upsert('U1', 'local:hash', [entry('near', [1, 0]), entry('far', [0, 1]), entry('always', [-1, 0])]);
+
+    const result = await store.search('U1', 'local:hash', [1, 0], 1, (item) => item.id === 'always');
+
+    expect(result!.hits.map((hit) => hit.item.id)).toEqual(['near', 'always']);
+    expect(await store.search('U2', 'local:hash', [1, 0], 1)).toBeNull();
+  });
+});
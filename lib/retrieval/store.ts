@@ -0,0 +1,317 @@
+// lib/retrieval/store.ts
+// Per-owner vector index of context items: embedded chunks plus the item they came from.
+// Backends only ever add what changed: the file backend appends to a log and the Redis backend
+// sets one hash field per item, so a refresh never rewrites an owner's whole index.
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ContextItem } from '@/lib/context/types';
+import { getDataDir, storeBackend } from '@/lib/storage/json-file';
+import { getRedisClient, KEY_PREFIX, type RedisClient } from '@/lib/storage/redis';
+import { similarity } from './embeddings';
+
+// Oldest items are dropped past this, so an index can't grow without bound
+const MAX_ITEMS_PER_OWNER = 5000;
+// The file backend rewrites a log once it holds this many times more lines than live items
+const COMPACT_RATIO = 2;
+
+export interface IndexedChunk {
+  text: string;
+  vector: number[];
+}
+
+export interface IndexedItem {
+  item: ContextItem;
+  // Hash of the item's content, so a refresh only embeds what changed
+  hash: string;
+  chunks: IndexedChunk[];
+  indexedAt: string;
+}
+
+export interface OwnerIndex {
+  // Embedder the vectors came from; a different one means everything is re-embedded
+  embedder: string;
+  // Keyed by item ID
+  items: Record<string, IndexedItem>;
+  updatedAt: string;
+}
+
+export interface SearchHit {
+  item: ContextItem;
+  // Best cosine similarity among the item's chunks
+  score: number;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  // When items were last added to the index
+  updatedAt: string;
+}
+
+export interface VectorIndexStore {
+  get(userId: string): Promise<OwnerIndex | null>;
+  // Add or replace items, returning how many the owner now has. Items embedded by another
+  // embedder are dropped first.
+  upsert(userId: string, embedder: string, items: IndexedItem[]): Promise<number>;
+  clear(userId: string): Promise<void>;
+  // Top `limit` items by similarity to `vector`, best first, plus every item `include` accepts.
+  // Null when nothing is indexed for the owner with `embedder`.
+  search(
+    userId: string,
+    embedder: string,
+    vector: number[],
+    limit: number,
+    include?: (item: ContextItem) => boolean
+  ): Promise<SearchResult | null>;
+}
+
+// What a backend keeps per owner; ranking and the embedder check are shared on top
+interface OwnerStorage {
+  load(): Promise<OwnerIndex>;
+  // Store `items`; with `reset`, everything indexed before is dropped first
+  save(embedder: string, items: IndexedItem[], reset: boolean): Promise<void>;
+}
+
+// Stands in for an owner with nothing indexed yet
+function emptyIndex(): OwnerIndex {
+  return { embedder: '', items: {}, updatedAt: new Date(0).toISOString() };
+}
+
+function isEmpty(index: OwnerIndex): boolean {
+  return Object.keys(index.items).length === 0;
+}
+
+function itemTime(entry: IndexedItem): string {
+  return entry.item.timestamp ?? entry.indexedAt;
+}
+
+// The entries past MAX_ITEMS_PER_OWNER, oldest first
+function overflow(index: OwnerIndex): IndexedItem[] {
+  const entries = Object.values(index.items);
+  if (entries.length <= MAX_ITEMS_PER_OWNER) return [];
+  return entries
+    .sort((a, b) => itemTime(a).localeCompare(itemTime(b)))
+    .slice(0, entries.length - MAX_ITEMS_PER_OWNER);
+}
+
+function applyUpsert(index: OwnerIndex, embedder: string, items: IndexedItem[], reset: boolean, at: string): void {
+  if (reset) {
+    index.items = {};
+  }
+  index.embedder = embedder;
+  for (const entry of items) {
+    index.items[entry.item.id] = entry;
+  }
+  overflow(index).forEach((entry) => delete index.items[entry.item.id]);
+  index.updatedAt = at;
+}
+
+function rank(index: OwnerIndex, vector: number[], limit: number, include?: (item: ContextItem) => boolean): SearchHit[] {
+  const scored = Object.values(index.items)
+    .map((entry) => ({
+      item: entry.item,
+      score: Math.max(...entry.chunks.map((chunk) => similarity(vector, chunk.vector))),
+    }))
+    .filter((hit) => Number.isFinite(hit.score))
+    .sort((a, b) => b.score - a.score);
+  const top = scored.slice(0, limit);
+  return include ? [...top, ...scored.slice(limit).filter((hit) => include(hit.item))] : top;
+}
+
+function createIndexStore(storageFor: (userId: string) => OwnerStorage): VectorIndexStore {
+  return {
+    async get(userId) {
+      const index = await storageFor(userId).load();
+      return isEmpty(index) ? null : index;
+    },
+    async upsert(userId, embedder, items) {
+      const storage = storageFor(userId);
+      const index = await storage.load();
+      const reset = index.embedder !== embedder;
+      await storage.save(embedder, items, reset);
+      const ids = new Set([...(reset ? [] : Object.keys(index.items)), ...items.map((entry) => entry.item.id)]);
+      return Math.min(ids.size, MAX_ITEMS_PER_OWNER);
+    },
+    async clear(userId) {
+      await storageFor(userId).save('', [], true);
+    },
+    async search(userId, embedder, vector, limit, include) {
+      const index = await storageFor(userId).load();
+      if (index.embedder !== embedder || isEmpty(index)) return null;
+      return { hits: rank(index, vector, limit, include), updatedAt: index.updatedAt };
+    },
+  };
+}
+
+// In-process backend for tests and demos
+export function createInMemoryVectorIndexStore(): VectorIndexStore {
+  const indexes = new Map<string, OwnerIndex>();
+  const indexFor = (userId: string) => {
+    let index = indexes.get(userId);
+    if (!index) {
+      index = emptyIndex();
+      indexes.set(userId, index);
+    }
+    return index;
+  };
+  return createIndexStore((userId) => ({
+    load: async () => indexFor(userId),
+    save: async (embedder, items, reset) => applyUpsert(indexFor(userId), embedder, items, reset, new Date().toISOString()),
+  }));
+}
+
+// One line of an owner's log file
+type LogEntry =
+  | { reset: true; embedder: string; at: string }
+  | { entry: IndexedItem };
+
+function replay(lines: LogEntry[]): OwnerIndex {
+  const index = emptyIndex();
+  for (const line of lines) {
+    if ('reset' in line) {
+      applyUpsert(index, line.embedder, [], true, line.at);
+    } else {
+      applyUpsert(index, index.embedder, [line.entry], false, line.entry.indexedAt);
+    }
+  }
+  return index;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+// File backend: an append-only log per owner in `dir`, one JSON entry per line. A refresh appends
+// the items it embedded; once replaced and dropped entries make up most of the log, it is
+// rewritten with only the live ones. Appends are serialized within the process, like createJsonFile.
+export function createFileVectorIndexStore(dir: string): VectorIndexStore {
+  const pending = new Map<string, Promise<unknown>>();
+
+  const serialized = <R>(file: string, run: () => Promise<R>): Promise<R> => {
+    const next = (pending.get(file) ?? Promise.resolve()).then(run);
+    // Keep the chain alive even if this write fails
+    pending.set(file, next.catch(() => undefined));
+    return next;
+  };
+
+  const readLines = async (file: string): Promise<LogEntry[]> => {
+    try {
+      const raw = await fs.readFile(file, 'utf8');
+      // A process killed mid-append leaves a partial last line
+      return raw.split('\n').flatMap((line) => {
+        try {
+          return line ? [JSON.parse(line) as LogEntry] : [];
+        } catch {
+          return [];
+        }
+      });
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  };
+
+  const compact = async (file: string, index: OwnerIndex) => {
+    const lines: LogEntry[] = [
+      { reset: true, embedder: index.embedder, at: index.updatedAt },
+      ...Object.values(index.items).map((entry) => ({ entry })),
+    ];
+    // Unique per write: pids repeat across containers that share the directory
+    const tmpPath = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmpPath, lines.map((line) => JSON.stringify(line)).join('\n') + '\n', 'utf8');
+    await fs.rename(tmpPath, file);
+  };
+
+  return createIndexStore((userId) => {
+    const safeId = userId.replace(/[^A-Za-z0-9_-]/g, '_');
+    const file = path.join(dir, `${safeId}.jsonl`);
+    return {
+      load: async () => replay(await readLines(file)),
+      save: (embedder, items, reset) => serialized(file, async () => {
+        const at = new Date().toISOString();
+        const lines: LogEntry[] = [
+          ...(reset ? [{ reset: true as const, embedder, at }] : []),
+          ...items.map((entry) => ({ entry })),
+        ];
+        await fs.mkdir(dir, { recursive: true });
+        await fs.appendFile(file, lines.map((line) => JSON.stringify(line)).join('\n') + '\n', 'utf8');
+
+        const all = await readLines(file);
+        const index = replay(all);
+        if (all.length > COMPACT_RATIO * Object.keys(index.items).length + 1) {
+          await compact(file, index);
+        }
+      }),
+    };
+  });
+}
+
+// Redis backend: per owner, a hash of item ID -> entry and a hash with the embedder and update time.
+// A refresh only sets the fields of the items it embedded.
+export function createRedisVectorIndexStore(
+  prefix: string,
+  redis: () => RedisClient = getRedisClient
+): VectorIndexStore {
+  return createIndexStore((userId) => {
+    const itemsKey = `${KEY_PREFIX}${prefix}:${userId}:items`;
+    const metaKey = `${KEY_PREFIX}${prefix}:${userId}:meta`;
+
+    const load = async (): Promise<OwnerIndex> => {
+      const [fields, meta] = await Promise.all([
+        redis().command(['HGETALL', itemsKey]) as Promise<string[] | null>,
+        redis().command(['HMGET', metaKey, 'embedder', 'updatedAt']) as Promise<(string | null)[]>,
+      ]);
+      const index = emptyIndex();
+      index.embedder = meta[0] ?? '';
+      index.updatedAt = meta[1] ?? index.updatedAt;
+      // HGETALL answers with a flat [field, value, field, value, ...] list
+      for (let i = 0; fields && i < fields.length; i += 2) {
+        index.items[fields[i]] = JSON.parse(fields[i + 1]) as IndexedItem;
+      }
+      return index;
+    };
+
+    return {
+      load,
+      async save(embedder, items, reset) {
+        if (reset) {
+          await redis().command(['DEL', itemsKey]);
+        }
+        if (items.length > 0) {
+          await redis().command(['HSET', itemsKey, ...items.flatMap((entry) => [entry.item.id, JSON.stringify(entry)])]);
+        }
+        await redis().command(['HSET', metaKey, 'embedder', embedder, 'updatedAt', new Date().toISOString()]);
+
+        if (Number(await redis().command(['HLEN', itemsKey])) > MAX_ITEMS_PER_OWNER) {
+          const dropped = overflow(await load()).map((entry) => entry.item.id);
+          if (dropped.length > 0) {
+            await redis().command(['HDEL', itemsKey, ...dropped]);
+          }
+        }
+      },
+    };
+  });
+}
+
+let store: VectorIndexStore | null = null;
+
+// Backend is selected with VECTOR_INDEX=memory|file|redis (default: redis if configured, else file; see storeBackend).
+// Durable because the index jobs build what every instance retrieves from.
+export function getVectorIndexStore(): VectorIndexStore {
+  if (!store) {
+    const backend = storeBackend('VECTOR_INDEX', { durable: true });
+    if (backend === 'memory') {
+      store = createInMemoryVectorIndexStore();
+    } else if (backend === 'redis') {
+      store = createRedisVectorIndexStore('index');
+    } else {
+      store = createFileVectorIndexStore(path.join(getDataDir(), 'index'));
+    }
+  }
+  return store;
+}
+
+export function setVectorIndexStore(next: VectorIndexStore | null): void {
+  store = next;
+}
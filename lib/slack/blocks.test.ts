@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { Citation } from '@/lib/context/citations';
+import { agentAnswerBlocks, citationsText, FEEDBACK_ACTIONS } from './blocks';
+
+const sectionText = (blocks: ReturnType<typeof agentAnswerBlocks>) =>
+  (blocks[0] as { text: { text: string } }).text.text;
+
+describe('citationsText', () => {
+  it('links each source under its footnote number', () => {
+    const citations: Citation[] = [
+      { id: 'linear:PROJ-1', source: 'linear', label: 'PROJ-1: Ship it', url: 'https://linear.test/PROJ-1' },
+      { id: 'calendar:ev1', source: 'calendar', label: 'Design review' },
+    ];
+
+    expect(citationsText(citations)).toBe('📎 Sources: [1] <https://linear.test/PROJ-1|PROJ-1: Ship it> · [2] Design review');
+  });
+
+  it('keeps labels and urls from breaking out of the link', () => {
+    const citations: Citation[] = [
+      { id: 'github:1', source: 'github', label: 'Fix <b> & a|b > c', url: 'https://github.test/search?q=a|b&x=<1>' },
+    ];
+
+    expect(citationsText(citations)).toBe(
+      '📎 Sources: [1] <https://github.test/search?q=a%7Cb&amp;x=&lt;1&gt;|Fix &lt;b&gt; &amp; ab &gt; c>'
+    );
+  });
+
+  it('escapes labels without a link too', () => {
+    expect(citationsText([{ id: 'slack:1', source: 'slack', label: '<!channel> & co' }])).toBe('📎 Sources: [1] &lt;!channel&gt; &amp; co');
+  });
+
+  it('says when nothing was cited', () => {
+    expect(citationsText([])).toBe('📎 Sources: none');
+  });
+});
+
+describe('agentAnswerBlocks', () => {
+  it('shows the answer, its sources and feedback buttons for the owner', () => {
+    const blocks = agentAnswerBlocks('U1', 'Jane', 'Shipping the importer [1]', [
+      { id: 'linear:PROJ-1', source: 'linear', label: 'PROJ-1', url: 'https://linear.test/PROJ-1' },
+    ]);
+
+    expect(sectionText(blocks)).toBe('🤖 *Jane\'s Agent:*\n\nShipping the importer [1]');
+    expect(blocks[1]).toEqual({ type: 'context', elements: [{ type: 'mrkdwn', text: '📎 Sources: [1] <https://linear.test/PROJ-1|PROJ-1>' }] });
+    expect(blocks[2]).toMatchObject({
+      type: 'actions',
+      elements: Object.values(FEEDBACK_ACTIONS).map((action_id) => ({ action_id, value: 'U1' })),
+    });
+  });
+
+  it('cuts a long answer to fit Slack\'s 3000-character section limit', () => {
+    const text = sectionText(agentAnswerBlocks('U1', 'Jane', 'a'.repeat(5000), []));
+
+    expect(text.length).toBeLessThanOrEqual(3000);
+    expect(text.endsWith(`${'a'.repeat(2900)}…`)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+// lib/slack/blocks.ts
+// Block Kit builders for agent replies
+
+import type { Block, KnownBlock } from '@slack/types';
+import type { Citation } from '@/lib/context/citations';
+
+export type SlackBlock = KnownBlock | Block;
+
+// Slack section text is capped at 3000 characters; this leaves room for the agent's name
+const MAX_SECTION_LENGTH = 2900;
+
+// An answer cut to what fits in one section
+export function truncateSection(text: string): string {
+  return text.length > MAX_SECTION_LENGTH ? `${text.slice(0, MAX_SECTION_LENGTH)}…` : text;
+}
+
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// <url|label> ends at the first | or >, so neither part may contain them
+function link(url: string, label: string): string {
+  return `<${escapeMrkdwn(url).replace(/\|/g, '%7C')}|${escapeMrkdwn(label.replace(/\|/g, ''))}>`;
+}
+
+// Numbered to match the [n] footnotes in the answer
+export function citationsText(citations: Citation[]): string {
+  if (citations.length === 0) return '📎 Sources: none';
+  const links = citations.map((citation, index) => {
+    return `[${index + 1}] ${citation.url ? link(citation.url, citation.label) : escapeMrkdwn(citation.label)}`;
+  });
+  return `📎 Sources: ${links.join(' · ')}`;
+}
+
+// Feedback buttons carry the owner's user ID so multi-agent replies can be rated per person
+export const FEEDBACK_ACTIONS = {
+  helpful: 'feedback_helpful',
+  unhelpful: 'feedback_unhelpful',
+  wrong: 'feedback_wrong',
+} as const;
+
+export function agentAnswerBlocks(ownerId: string, displayName: string, answer: string, citations: Citation[]): SlackBlock[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `🤖 *${displayName}'s Agent:*\n\n${truncateSection(answer)}`
+      }
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: citationsText(citations)
+        }
+      ]
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '👍', emoji: true },
+          action_id: FEEDBACK_ACTIONS.helpful,
+          value: ownerId
+        },
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '👎', emoji: true },
+          action_id: FEEDBACK_ACTIONS.unhelpful,
+          value: ownerId
+        },
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: 'Wrong', emoji: true },
+          action_id: FEEDBACK_ACTIONS.wrong,
+          style: 'danger',
+          value: ownerId
+        }
+      ]
+    }
+  ];
+}
@@ -0,0 +1,6 @@
+// lib/slack/client.ts
+// Shared Slack Web API client used by every route and background handler
+
+import { WebClient } from '@slack/web-api';
+
+export const slack = new WebClient(process.env.SLACK_BOT_TOKEN);
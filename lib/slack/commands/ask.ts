@@ -0,0 +1,122 @@
+// lib/slack/commands/ask.ts
+// `/doppel ask @user question`: ask a teammate's agent privately; only the asker sees the answer
+
+import { pauseEndText } from '@/lib/agents/pause';
+import { listSources } from '@/lib/context/sources';
+import { getAnswerHistoryStore } from '@/lib/history/store';
+import { getJobQueue } from '@/lib/jobs/queue';
+import { logger } from '@/lib/logger';
+import { citationsText, truncateSection, type SlackBlock } from '../blocks';
+import { askAgent, refusedReplyText, restrictedReplyText, type AgentReply } from '../mention';
+import { parseQuestion } from '../parse';
+import { resolveTargetUserIds } from '../targets';
+import { ephemeral, type CommandResponse, type SubcommandHandler } from './types';
+
+const USAGE = 'Try `/doppel ask @john what is he working on?`';
+
+export interface PrivateAskRequest {
+  targetUserId: string;
+  question: string;
+  askerId: string;
+  // Channel the command was run in, for the owner's history
+  channel: string;
+  // Slack workspace, for its model overrides
+  teamId?: string;
+}
+
+export const askCommand: SubcommandHandler = async (payload, args) => {
+  const parsed = parseQuestion(args);
+  if (!parsed.ok) {
+    return ephemeral(`❓ ${parsed.error.message}. ${USAGE}`);
+  }
+
+  const targetUserIds = await resolveTargetUserIds(parsed.targets);
+  if (targetUserIds.length !== 1) {
+    return ephemeral(`❓ Private questions go to one teammate at a time. ${USAGE}`);
+  }
+
+  const [targetUserId] = targetUserIds;
+  await getJobQueue().enqueue('private_ask', {
+    request: {
+      targetUserId,
+      question: parsed.question,
+      askerId: payload.user_id,
+      channel: payload.channel_id,
+      teamId: payload.team_id || undefined,
+    },
+    responseUrl: payload.response_url,
+  });
+  logger.slack.info('Queued private ask', { targetUserId, askerId: payload.user_id });
+  return ephemeral(`🔒 Asking <@${targetUserId}>'s agent privately...`);
+};
+
+function privateReply(reply: AgentReply): CommandResponse {
+  switch (reply.status) {
+    case 'answered': {
+      const blocks: SlackBlock[] = [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `🤖 *${reply.displayName}'s Agent:*\n\n${truncateSection(reply.answer)}` }
+        },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `🔒 Only you can see this · ${citationsText(reply.citations)}` }]
+        }
+      ];
+      return ephemeral(reply.answer, blocks);
+    }
+    case 'not_set_up':
+      return ephemeral(`⚠️ @${reply.userName} hasn't set up their agent yet.`);
+    case 'paused':
+      return ephemeral(`⏸️ ${reply.displayName}'s agent is paused ${pauseEndText(reply.pause)}. Try asking <@${reply.userId}> directly.`);
+    case 'restricted':
+      return ephemeral(restrictedReplyText(reply.displayName, reply.userId));
+    case 'escalated':
+      return ephemeral(`🙋 ${reply.displayName}'s agent can't answer that one - please ask <@${reply.userId}> directly.`);
+    case 'refused':
+      return ephemeral(refusedReplyText(reply.displayName, reply.userId));
+    case 'failed':
+      return ephemeral(`⚠️ ${reply.displayName}'s agent couldn't answer right now.`);
+  }
+}
+
+// Replace the "Asking..." message through the command's response_url
+export async function respondToCommand(responseUrl: string, response: CommandResponse): Promise<void> {
+  const result = await fetch(responseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...response, replace_original: true }),
+  });
+  if (!result.ok) {
+    throw new Error(`response_url returned ${result.status}`);
+  }
+}
+
+// Run by the job worker. Throws when the agent fails so the job is retried.
+export async function answerPrivately(request: PrivateAskRequest, responseUrl: string): Promise<void> {
+  const { targetUserId, question, askerId, channel, teamId } = request;
+  const reply = await askAgent(targetUserId, { question, channel, threadTs: '', askerId, teamId }, [], { privately: true });
+  if (reply.status === 'failed') {
+    throw new Error(`Agent for ${targetUserId} failed to answer`);
+  }
+
+  await respondToCommand(responseUrl, privateReply(reply));
+
+  // Still an answer on the owner's behalf, so it belongs in their history and digest
+  if (reply.status === 'answered') {
+    await getAnswerHistoryStore().record({
+      ownerId: targetUserId,
+      askerId,
+      channel,
+      threadTs: '',
+      messageTs: '',
+      question,
+      answer: reply.answer,
+      sources: listSources(reply.citations),
+      citations: reply.citations,
+      permalink: null,
+    }).catch((error) => {
+      logger.slack.error('Failed to record private answer', error as Error, { targetUserId });
+    });
+  }
+}
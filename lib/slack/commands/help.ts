@@ -0,0 +1,11 @@
+// lib/slack/commands/help.ts
+// `/doppel help`: lists every subcommand
+
+import { ephemeral, type CommandResponse, type Subcommand } from './types';
+
+export function helpResponse(subcommands: Subcommand[], intro?: string): CommandResponse {
+  const lines = subcommands.map((subcommand) => `\`${subcommand.usage}\` - ${subcommand.description}`);
+  return ephemeral(
+    [intro, '*Doppel commands*', ...lines].filter(Boolean).join('\n')
+  );
+}
@@ -0,0 +1,42 @@
+// lib/slack/commands/history.ts
+// `/doppel history`: the most recent answers given on your behalf
+
+import { getAnswerHistoryStore } from '@/lib/history/store';
+import type { SlackBlock } from '../blocks';
+import { ephemeral, type SubcommandHandler } from './types';
+
+const HISTORY_LIMIT = 5;
+const MAX_ANSWER_PREVIEW = 300;
+
+export const historyCommand: SubcommandHandler = async (payload) => {
+  const records = await getAnswerHistoryStore().list(payload.user_id, { limit: HISTORY_LIMIT });
+  if (records.length === 0) {
+    return ephemeral('Your agent hasn\'t answered anything yet.');
+  }
+
+  const blocks: SlackBlock[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*Your agent's last ${records.length} answer${records.length === 1 ? '' : 's'}*` }
+    }
+  ];
+  for (const record of records) {
+    const asker = record.askerId ? `<@${record.askerId}>` : 'Someone';
+    const answer = record.answer.length > MAX_ANSWER_PREVIEW ? `${record.answer.substring(0, MAX_ANSWER_PREVIEW)}…` : record.answer;
+    const unix = Math.floor(Date.parse(record.createdAt) / 1000);
+    const link = record.permalink ? ` · <${record.permalink}|View thread>` : '';
+    blocks.push(
+      { type: 'divider' },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*${asker}:* ${record.question}\n${answer.split('\n').map((line) => `>${line}`).join('\n')}` }
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `<!date^${unix}^{date_short_pretty} at {time}|${record.createdAt}>${link}` }]
+      }
+    );
+  }
+
+  return ephemeral(`Your agent's last ${records.length} answers`, blocks);
+};
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryAgentProfileStore, getAgentProfileStore, setAgentProfileStore } from '@/lib/agents/store';
+import { recordConnection } from '@/lib/composio/connection-state';
+import { createInMemoryAnswerHistoryStore, getAnswerHistoryStore, setAnswerHistoryStore } from '@/lib/history/store';
+import { createInMemoryJobQueue, getJobQueue, setJobQueue } from '@/lib/jobs/queue';
+import { DEFAULT_PRIVACY_SETTINGS } from '@/lib/privacy/settings';
+import { restrictedReplyText } from '../mention';
+import { answerPrivately } from './ask';
+import { dispatchCommand } from './index';
+import type { SlashCommandPayload } from './types';
+
+vi.mock('../client', () => ({ slack: {} }));
+
+const OWNER = 'U1';
+
+const command = (text: string, userId = OWNER): SlashCommandPayload => ({
+  command: '/doppel',
+  text,
+  user_id: userId,
+  team_id: 'T1',
+  channel_id: 'C1',
+  response_url: 'https://hooks.slack.test/commands/1',
+  trigger_id: 'trigger',
+});
+
+describe('/doppel subcommands', () => {
+  beforeEach(async () => {
+    setAgentProfileStore(createInMemoryAgentProfileStore());
+    setAnswerHistoryStore(createInMemoryAnswerHistoryStore());
+    setJobQueue(createInMemoryJobQueue());
+    await getAgentProfileStore().create(OWNER, { name: 'jane', displayName: 'Jane' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setAgentProfileStore(null);
+    setAnswerHistoryStore(null);
+    setJobQueue(null);
+  });
+
+  it('ignores commands that are not ours', async () => {
+    expect(await dispatchCommand({ ...command('status'), command: '/other' })).toBeNull();
+  });
+
+  it('lists the subcommands for help, an empty command and an unknown one', async () => {
+    expect((await dispatchCommand(command('')))?.text).toContain('`/doppel ask @user question`');
+    expect((await dispatchCommand(command('HELP')))?.text).toContain('*Doppel commands*');
+    expect((await dispatchCommand(command('dance')))?.text).toMatch(/^❓ I don't know `dance`\./);
+  });
+
+  describe('pause and resume', () => {
+    it('pauses for a duration and resumes', async () => {
+      expect((await dispatchCommand(command('pause 2h')))?.text).toMatch(/^⏸️ Your agent is paused until <!date\^/);
+      expect((await getAgentProfileStore().get(OWNER))?.pause?.until).not.toBeNull();
+
+      expect((await dispatchCommand(command('resume')))?.text).toBe('▶️ Your agent is answering questions again.');
+      expect((await getAgentProfileStore().get(OWNER))?.pause).toBeNull();
+    });
+
+    it('pauses until resumed without a duration', async () => {
+      expect((await dispatchCommand(command('pause')))?.text).toContain('until you run `/doppel resume`');
+    });
+
+    it('rejects a duration it cannot read', async () => {
+      expect((await dispatchCommand(command('pause forever')))?.text).toMatch(/^❓ I didn't understand "forever"/);
+      expect((await getAgentProfileStore().get(OWNER))?.pause).toBeUndefined();
+    });
+
+    it('says so when the agent is not paused', async () => {
+      expect((await dispatchCommand(command('resume')))?.text).toMatch(/isn't paused/);
+    });
+
+    it('asks someone without an agent to set one up', async () => {
+      expect((await dispatchCommand(command('pause', 'U9')))?.text).toMatch(/haven't set up your agent/);
+    });
+  });
+
+  it('shows connections, answers this week and escalation rules in the status', async () => {
+    await recordConnection(OWNER, { id: 'ca_slack', integrationId: 'slack', authConfigId: 'ac_slack', status: 'ACTIVE' });
+    await getAgentProfileStore().update(OWNER, { escalation: { keywords: ['salary'], blockedChannels: [], minConfidence: 0.5 } });
+    await getAnswerHistoryStore().record({
+      ownerId: OWNER, askerId: 'U2', channel: 'C1', threadTs: '1.0', messageTs: '1.1',
+      question: 'q', answer: 'a', sources: [], citations: [], permalink: null,
+    });
+
+    const fields = JSON.stringify((await dispatchCommand(command('status')))?.blocks);
+    expect(fields).toContain('*Connected tools*\\nSlack');
+    expect(fields).toContain('*Answered this week*\\n1');
+    expect(fields).toContain('*Escalates on*\\nkeywords: salary · confidence below 50%');
+  });
+
+  it('lists the latest answers in the history', async () => {
+    expect((await dispatchCommand(command('history')))?.text).toBe('Your agent hasn\'t answered anything yet.');
+
+    await getAnswerHistoryStore().record({
+      ownerId: OWNER, askerId: 'U2', channel: 'C1', threadTs: '1.0', messageTs: '1.1',
+      question: 'what shipped?', answer: 'The importer', sources: [], citations: [], permalink: 'https://slack.test/p1',
+    });
+    const blocks = JSON.stringify((await dispatchCommand(command('history')))?.blocks);
+    expect(blocks).toContain('*<@U2>:* what shipped?\\n>The importer');
+    expect(blocks).toContain('<https://slack.test/p1|View thread>');
+  });
+
+  describe('ask', () => {
+    it('queues a private question for one teammate', async () => {
+      const response = await dispatchCommand(command('ask <@U1> what shipped?', 'U2'));
+
+      expect(response?.text).toBe('🔒 Asking <@U1>\'s agent privately...');
+      expect(await getJobQueue().claim()).toMatchObject({
+        type: 'private_ask',
+        payload: {
+          request: { targetUserId: OWNER, question: 'what shipped?', askerId: 'U2', channel: 'C1', teamId: 'T1' },
+          responseUrl: 'https://hooks.slack.test/commands/1',
+        },
+      });
+    });
+
+    it('refuses several teammates at once', async () => {
+      expect((await dispatchCommand(command('ask <@U1> and <@U3> lunch?', 'U2')))?.text).toMatch(/one teammate at a time/);
+      expect(await getJobQueue().claim()).toBeNull();
+    });
+
+    it('explains a question it cannot parse', async () => {
+      expect((await dispatchCommand(command('ask what shipped?', 'U2')))?.text).toMatch(/^❓ No teammate was mentioned/);
+    });
+
+    it('answers a restricted asker without revealing the allow list', async () => {
+      await getAgentProfileStore().update(OWNER, { privacy: { ...DEFAULT_PRIVACY_SETTINGS, allowedRequesters: ['U3'] } });
+      const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+      vi.stubGlobal('fetch', fetch);
+
+      await answerPrivately({ targetUserId: OWNER, question: 'what shipped?', askerId: 'U2', channel: 'C1' }, 'https://hooks.slack.test/commands/1');
+
+      const body = JSON.parse(fetch.mock.calls[0][1].body);
+      expect(body).toEqual({ response_type: 'ephemeral', text: restrictedReplyText('Jane', OWNER), replace_original: true });
+    });
+  });
+});
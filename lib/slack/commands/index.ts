@@ -0,0 +1,50 @@
+// lib/slack/commands/index.ts
+// Routes `/doppel <subcommand>` (and the legacy `/setup-agent`) to its handler
+
+import { logger } from '@/lib/logger';
+import { askCommand } from './ask';
+import { helpResponse } from './help';
+import { historyCommand } from './history';
+import { pauseCommand, resumeCommand } from './pause';
+import { reindexCommand } from './reindex';
+import { setupCommand } from './setup';
+import { statusCommand } from './status';
+import type { CommandResponse, SlashCommandPayload, Subcommand } from './types';
+
+export const SLASH_COMMAND = '/doppel';
+const LEGACY_SETUP_COMMAND = '/setup-agent';
+
+const SUBCOMMANDS: Subcommand[] = [
+  { name: 'status', usage: '/doppel status', description: 'Connected tools and whether your agent is answering', run: statusCommand },
+  { name: 'pause', usage: '/doppel pause [duration]', description: 'Stop your agent answering, e.g. for `2h` or `3d` (or until you resume)', run: pauseCommand },
+  { name: 'resume', usage: '/doppel resume', description: 'Let your agent answer again', run: resumeCommand },
+  { name: 'history', usage: '/doppel history', description: 'Recent answers your agent gave on your behalf', run: historyCommand },
+  { name: 'ask', usage: '/doppel ask @user question', description: 'Ask a teammate\'s agent privately', run: askCommand },
+  { name: 'setup', usage: '/doppel setup', description: 'Connect your tools', run: setupCommand },
+  { name: 'reindex', usage: '/doppel reindex', description: 'Rebuild what your agent remembers from your tools', run: reindexCommand },
+  { name: 'help', usage: '/doppel help', description: 'Show this list', run: async () => helpResponse(SUBCOMMANDS) },
+];
+
+// null when the command isn't one of ours
+export async function dispatchCommand(payload: SlashCommandPayload): Promise<CommandResponse | null> {
+  if (payload.command === LEGACY_SETUP_COMMAND) {
+    return setupCommand(payload, '');
+  }
+  if (payload.command !== SLASH_COMMAND) {
+    return null;
+  }
+
+  const text = payload.text.trim();
+  const name = text.split(/\s+/)[0] || 'help';
+  const args = text.slice(name.length).trim();
+  const subcommand = SUBCOMMANDS.find((item) => item.name === name.toLowerCase());
+  if (!subcommand) {
+    logger.slack.info('Unknown subcommand', { name, userId: payload.user_id });
+    return helpResponse(SUBCOMMANDS, `❓ I don't know \`${name}\`.`);
+  }
+
+  logger.slack.info('Dispatching slash command', { subcommand: subcommand.name, userId: payload.user_id });
+  return subcommand.run(payload, args);
+}
+
+export { slashCommandPayload } from './types';
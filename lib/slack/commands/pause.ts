@@ -0,0 +1,39 @@
+// lib/slack/commands/pause.ts
+// `/doppel pause [duration]` and `/doppel resume`
+
+import { createPause, isPaused, parseDuration, pauseEndText } from '@/lib/agents/pause';
+import { getAgentProfileStore } from '@/lib/agents/store';
+import { logger } from '@/lib/logger';
+import { ephemeral, type SubcommandHandler } from './types';
+
+const NOT_SET_UP = 'You haven\'t set up your agent yet. Run `/doppel setup` to get started.';
+
+export const pauseCommand: SubcommandHandler = async (payload, args) => {
+  let durationMs: number | null = null;
+  if (args) {
+    durationMs = parseDuration(args);
+    if (durationMs === null) {
+      return ephemeral(`❓ I didn't understand "${args}". Try \`/doppel pause 2h\`, \`/doppel pause 3d\`, or just \`/doppel pause\` to pause until you resume.`);
+    }
+  }
+
+  const pause = createPause(durationMs);
+  const profile = await getAgentProfileStore().update(payload.user_id, { pause });
+  if (!profile) return ephemeral(NOT_SET_UP);
+
+  logger.agents.info('Agent paused', { userId: payload.user_id, until: pause.until });
+  return ephemeral(`⏸️ Your agent is paused ${pauseEndText(pause, 'until you run `/doppel resume`')}. Teammates will be told to ask you directly.`);
+};
+
+export const resumeCommand: SubcommandHandler = async (payload) => {
+  const store = getAgentProfileStore();
+  const existing = await store.get(payload.user_id);
+  if (!existing) return ephemeral(NOT_SET_UP);
+  if (!isPaused(existing)) {
+    return ephemeral('Your agent isn\'t paused - it\'s already answering questions.');
+  }
+
+  await store.update(payload.user_id, { pause: null });
+  logger.agents.info('Agent resumed', { userId: payload.user_id });
+  return ephemeral('▶️ Your agent is answering questions again.');
+};
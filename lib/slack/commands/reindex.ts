@@ -0,0 +1,30 @@
+// lib/slack/commands/reindex.ts
+// `/doppel reindex`: rebuild your agent's search index from your connected tools
+
+import { getAgentData } from '@/lib/agents/profiles';
+import { getJobQueue } from '@/lib/jobs/queue';
+import { logger } from '@/lib/logger';
+import { reindex } from '@/lib/retrieval/ingest';
+import { respondToCommand } from './ask';
+import { ephemeral, type SubcommandHandler } from './types';
+
+export const reindexCommand: SubcommandHandler = async (payload) => {
+  const userId = payload.user_id;
+  if (!await getAgentData(userId)) {
+    return ephemeral('You haven\'t set up your agent yet. Run `/doppel setup` to get started.');
+  }
+
+  // Embedding everything can take longer than Slack waits for a reply
+  await getJobQueue().enqueue('reindex', { userId, responseUrl: payload.response_url });
+  logger.slack.info('Queued reindex', { userId });
+  return ephemeral('🔄 Rebuilding your agent\'s index...');
+};
+
+export async function runReindex(userId: string, responseUrl: string): Promise<void> {
+  const { total } = await reindex(userId);
+  await respondToCommand(responseUrl, ephemeral(
+    total > 0
+      ? `✅ Your agent's index now covers ${total} item${total === 1 ? '' : 's'} from your tools.`
+      : '✅ Index cleared. Nothing to add yet - run `/doppel setup` to connect your tools.'
+  ));
+}
@@ -0,0 +1,51 @@
+// lib/slack/commands/setup.ts
+// `/doppel setup` (and the original `/setup-agent`): create the profile and link to the setup page
+
+import { ensureAgentProfile } from '@/lib/agents/profiles';
+import { createSetupLink } from '@/lib/auth/session';
+import { logger } from '@/lib/logger';
+import { ephemeral, type SubcommandHandler } from './types';
+
+export const setupCommand: SubcommandHandler = async (payload) => {
+  const userId = payload.user_id;
+
+  // Make sure the user has an agent profile so teammates can ask it right away
+  try {
+    await ensureAgentProfile(userId);
+  } catch (error) {
+    logger.slack.error('Failed to create agent profile', error as Error, { userId });
+  }
+
+  // Signed and short-lived: opening it signs this user in to the setup page
+  const setupUrl = createSetupLink(userId);
+
+  return ephemeral('🤖 Set up your AI agent', [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: '*Set Up Your AI Agent*\n\nConnect your accounts so teammates can ask your agent questions while you\'re offline.'
+      }
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '🚀 Set Up Now', emoji: true },
+          url: setupUrl,
+          style: 'primary'
+        }
+      ]
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: '💡 Your agent will answer questions based on your Calendar, Slack, Jira, and more! This link works for 15 minutes.'
+        }
+      ]
+    }
+  ]);
+};
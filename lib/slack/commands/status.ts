@@ -0,0 +1,59 @@
+// lib/slack/commands/status.ts
+// `/doppel status`: connected tools, pause state and escalation rules at a glance
+
+import { isPaused, pauseEndText } from '@/lib/agents/pause';
+import { getAgentData } from '@/lib/agents/profiles';
+import { getConnectionStatus } from '@/lib/composio/connection-state';
+import { DEFAULT_ESCALATION_RULES } from '@/lib/escalation/rules';
+import { getAnswerHistoryStore } from '@/lib/history/store';
+import { logger } from '@/lib/logger';
+import { ephemeral, type SubcommandHandler } from './types';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const statusCommand: SubcommandHandler = async (payload) => {
+  const userId = payload.user_id;
+  const profile = await getAgentData(userId);
+  if (!profile) {
+    return ephemeral('You haven\'t set up your agent yet. Run `/doppel setup` to get started.');
+  }
+
+  const connectedTools = await getConnectionStatus(userId)
+    .then((status) => status.connectedTools)
+    .catch((error) => {
+      logger.slack.error('Failed to load connections for status', error as Error, { userId });
+      return null;
+    });
+  const answered = await getAnswerHistoryStore().list(userId, {
+    since: new Date(Date.now() - WEEK_MS).toISOString(),
+  });
+
+  const state = profile.pause && isPaused(profile)
+    ? `⏸️ Paused ${pauseEndText(profile.pause, 'until you run `/doppel resume`')}`
+    : '✅ Answering questions';
+  const tools = connectedTools === null
+    ? '⚠️ Couldn\'t check connections right now'
+    : connectedTools.length > 0 ? connectedTools.join(', ') : 'None yet - run `/doppel setup` to connect some';
+
+  const rules = profile.escalation ?? DEFAULT_ESCALATION_RULES;
+  const escalation = [
+    rules.keywords.length > 0 ? `keywords: ${rules.keywords.join(', ')}` : null,
+    rules.blockedChannels.length > 0 ? `channels: ${rules.blockedChannels.map((id) => `<#${id}>`).join(', ')}` : null,
+    rules.minConfidence !== null ? `confidence below ${Math.round(rules.minConfidence * 100)}%` : null,
+  ].filter(Boolean).join(' · ') || 'none';
+
+  return ephemeral(`Your agent: ${state}`, [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*${profile.displayName}'s Agent*\n${state}` }
+    },
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `*Connected tools*\n${tools}` },
+        { type: 'mrkdwn', text: `*Answered this week*\n${answered.length}` },
+        { type: 'mrkdwn', text: `*Escalates on*\n${escalation}` },
+      ]
+    }
+  ]);
+};
@@ -0,0 +1,48 @@
+// lib/slack/commands/types.ts
+// Slash command payloads and the shape of a subcommand handler
+// See https://api.slack.com/interactivity/slash-commands#app_command_handling
+
+import type { SlackBlock } from '../blocks';
+
+export interface SlashCommandPayload {
+  command: string;
+  text: string;
+  user_id: string;
+  team_id: string;
+  channel_id: string;
+  response_url: string;
+  trigger_id: string;
+}
+
+// Returned to Slack in the HTTP response; ephemeral unless stated otherwise
+export interface CommandResponse {
+  response_type?: 'ephemeral' | 'in_channel';
+  text: string;
+  blocks?: SlackBlock[];
+}
+
+// `args` is the text after the subcommand name
+export type SubcommandHandler = (payload: SlashCommandPayload, args: string) => Promise<CommandResponse>;
+
+export interface Subcommand {
+  name: string;
+  usage: string;
+  description: string;
+  run: SubcommandHandler;
+}
+
+export function ephemeral(text: string, blocks?: SlackBlock[]): CommandResponse {
+  return { response_type: 'ephemeral', text, ...(blocks && { blocks }) };
+}
+
+export function slashCommandPayload(body: Record<string, unknown>): SlashCommandPayload {
+  return {
+    command: String(body.command || ''),
+    text: String(body.text || ''),
+    user_id: String(body.user_id || ''),
+    team_id: String(body.team_id || ''),
+    channel_id: String(body.channel_id || ''),
+    response_url: String(body.response_url || ''),
+    trigger_id: String(body.trigger_id || ''),
+  };
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileEventDedupStore } from './dedup';
+
+describe('file event dedup store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dedup-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('lets exactly one of several instances sharing a directory claim an event', async () => {
+    // Separate stores stand in for separate processes: nothing is shared but the directory
+    const stores = Array.from({ length: 5 }, () => createFileEventDedupStore(dir));
+    const keys = ['event:Ev1', 'message:C1:1.2'];
+
+    const results = await Promise.all(stores.map((store) => store.claim(keys)));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('treats a message seen under another event ID as a duplicate, without claiming the new ID', async () => {
+    const [first, second] = [createFileEventDedupStore(dir), createFileEventDedupStore(dir)];
+
+    expect(await first.claim(['event:Ev1', 'message:C1:1.2'])).toBe(true);
+    expect(await second.claim(['event:Ev2', 'message:C1:1.2'])).toBe(false);
+    expect(await second.claim(['event:Ev2'])).toBe(true);
+  });
+
+  it('lets a released event be claimed again', async () => {
+    const store = createFileEventDedupStore(dir);
+
+    expect(await store.claim(['event:Ev1'])).toBe(true);
+    await store.release(['event:Ev1']);
+    expect(await createFileEventDedupStore(dir).claim(['event:Ev1'])).toBe(true);
+  });
+
+  it('reports a seen event without claiming the keys it has not seen', async () => {
+    const [first, second] = [createFileEventDedupStore(dir), createFileEventDedupStore(dir)];
+    await first.claim(['event:Ev1']);
+
+    expect(await second.has(['event:Ev1', 'message:C1:1.2'])).toBe(true);
+    expect(await second.has(['event:Ev2'])).toBe(false);
+    expect(await second.claim(['event:Ev2', 'message:C1:1.2'])).toBe(true);
+  });
+
+  it('sweeps keys whose TTL has passed', async () => {
+    await createFileEventDedupStore(dir).claim(['event:Old'], -1);
+    expect(await fs.readdir(dir)).toHaveLength(1);
+
+    await createFileEventDedupStore(dir).claim(['event:New']);
+    expect(await fs.readdir(dir)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,192 @@
+// lib/slack/dedup.ts
+// Remembers which Slack events were already accepted, so retries and duplicate deliveries are answered once
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataDir, storeBackend } from '@/lib/storage/json-file';
+import { getRedisClient, KEY_PREFIX, type RedisClient } from '@/lib/storage/redis';
+
+// Slack retries for a few minutes; an hour covers every retry with room to spare
+export const DEDUP_TTL_MS = 60 * 60 * 1000;
+// How often one process sweeps expired keys out of the file backend
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface EventDedupStore {
+  // Mark every key as seen. Returns false, marking nothing, if any key was already seen within its TTL.
+  claim(keys: string[], ttlMs?: number): Promise<boolean>;
+  // Whether any key was seen within its TTL, without marking anything
+  has(keys: string[]): Promise<boolean>;
+  // Forget keys so a retry is processed, e.g. when the event couldn't be queued
+  release(keys: string[]): Promise<void>;
+}
+
+// Key -> epoch ms when the entry expires
+type SeenMap = Record<string, number>;
+
+// Keys for an event: its event_id catches Slack's retries, and the message identity catches the
+// same message arriving as both `message` and `app_mention` (which have different event_ids)
+export function eventDedupKeys(eventId: string | undefined, event: { channel: string; ts: string }): string[] {
+  return [
+    ...(eventId ? [`event:${eventId}`] : []),
+    `message:${event.channel}:${event.ts}`,
+  ];
+}
+
+function createMapStore(
+  update: <R>(mutate: (seen: SeenMap) => R) => Promise<R>
+): EventDedupStore {
+  return {
+    claim(keys, ttlMs = DEDUP_TTL_MS) {
+      return update((seen) => {
+        const now = Date.now();
+        for (const [key, expiresAt] of Object.entries(seen)) {
+          if (expiresAt <= now) delete seen[key];
+        }
+        if (keys.some((key) => key in seen)) return false;
+        for (const key of keys) {
+          seen[key] = now + ttlMs;
+        }
+        return true;
+      });
+    },
+    has(keys) {
+      return update((seen) => {
+        const now = Date.now();
+        return keys.some((key) => seen[key] > now);
+      });
+    },
+    release(keys) {
+      return update((seen) => {
+        for (const key of keys) {
+          delete seen[key];
+        }
+      });
+    },
+  };
+}
+
+// Per-process backend for tests and single-instance deployments
+export function createInMemoryEventDedupStore(): EventDedupStore {
+  const seen: SeenMap = {};
+  return createMapStore(async (mutate) => mutate(seen));
+}
+
+function isFileExists(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'EEXIST';
+}
+
+// File backend: one file per key in `dir`, created with O_EXCL so exactly one process wins a key,
+// even across instances that mount the same directory. A key's file existing means it was seen;
+// the expiry written into it only decides when the sweep deletes it, since Slack never
+// redelivers an event that long after.
+export function createFileEventDedupStore(dir: string): EventDedupStore {
+  const fileFor = (key: string) => path.join(dir, createHash('sha256').update(key).digest('hex'));
+  let lastSweep = 0;
+
+  const sweep = async (now: number) => {
+    lastSweep = now;
+    for (const name of await fs.readdir(dir).catch(() => [] as string[])) {
+      const file = path.join(dir, name);
+      const written = Number(await fs.readFile(file, 'utf8').catch(() => ''));
+      // A process that died between creating and writing the file leaves it empty
+      const expiresAt = written || ((await fs.stat(file).catch(() => null))?.mtimeMs ?? now) + DEDUP_TTL_MS;
+      if (expiresAt <= now) {
+        await fs.unlink(file).catch(() => undefined);
+      }
+    }
+  };
+
+  const release = async (keys: string[]) => {
+    await Promise.all(keys.map((key) => fs.unlink(fileFor(key)).catch(() => undefined)));
+  };
+
+  return {
+    async claim(keys, ttlMs = DEDUP_TTL_MS) {
+      const now = Date.now();
+      await fs.mkdir(dir, { recursive: true });
+      if (now - lastSweep > SWEEP_INTERVAL_MS) await sweep(now);
+
+      const claimed: string[] = [];
+      for (const key of keys) {
+        try {
+          const handle = await fs.open(fileFor(key), 'wx');
+          claimed.push(key);
+          try {
+            await handle.writeFile(String(now + ttlMs));
+          } finally {
+            await handle.close();
+          }
+        } catch (error) {
+          // Give back what this call took, so the other keys aren't left half-claimed
+          await release(claimed);
+          if (isFileExists(error)) return false;
+          throw error;
+        }
+      }
+      return true;
+    },
+    async has(keys) {
+      const seen = await Promise.all(keys.map((key) => fs.access(fileFor(key)).then(() => true, () => false)));
+      return seen.includes(true);
+    },
+    release,
+  };
+}
+
+// Sets every key with a TTL, or none of them if any already exists
+const CLAIM_SCRIPT = `
+for _, key in ipairs(KEYS) do
+  if redis.call('EXISTS', key) == 1 then return 0 end
+end
+for _, key in ipairs(KEYS) do
+  redis.call('SET', key, '1', 'PX', ARGV[1])
+end
+return 1`;
+
+// Redis backend: one key per event with Redis expiring it, claimed in one script so
+// exactly one instance wins
+export function createRedisEventDedupStore(
+  prefix: string,
+  redis: () => RedisClient = getRedisClient
+): EventDedupStore {
+  const keysFor = (keys: string[]) => keys.map((key) => `${KEY_PREFIX}${prefix}:${key}`);
+
+  return {
+    async claim(keys, ttlMs = DEDUP_TTL_MS) {
+      if (keys.length === 0) return true;
+      const claimed = await redis().command(['EVAL', CLAIM_SCRIPT, keys.length, ...keysFor(keys), ttlMs]);
+      return Number(claimed) === 1;
+    },
+    async has(keys) {
+      if (keys.length === 0) return false;
+      return Number(await redis().command(['EXISTS', ...keysFor(keys)])) > 0;
+    },
+    async release(keys) {
+      if (keys.length === 0) return;
+      await redis().command(['DEL', ...keysFor(keys)]);
+    },
+  };
+}
+
+let store: EventDedupStore | null = null;
+
+// Backend is selected with DEDUP_STORE=memory|file|redis (default: redis if configured, else file; see storeBackend).
+// Durable because Slack delivers a retry to whichever instance is free.
+export function getEventDedupStore(): EventDedupStore {
+  if (!store) {
+    const backend = storeBackend('DEDUP_STORE', { durable: true });
+    if (backend === 'memory') {
+      store = createInMemoryEventDedupStore();
+    } else if (backend === 'redis') {
+      store = createRedisEventDedupStore('events');
+    } else {
+      store = createFileEventDedupStore(path.join(getDataDir(), 'events'));
+    }
+  }
+  return store;
+}
+
+export function setEventDedupStore(next: EventDedupStore | null): void {
+  store = next;
+}
@@ -0,0 +1,97 @@
+// lib/slack/interactions/ask-shortcut.ts
+// "Ask a teammate's agent" message shortcut: pick a teammate, edit the question, answer in the thread
+
+import { getJobQueue } from '@/lib/jobs/queue';
+import { logger } from '@/lib/logger';
+import { slack } from '../client';
+import { viewError, viewValue, type InteractionHandlers } from './types';
+
+export const ASK_SHORTCUT = 'ask_teammate_agent';
+const ASK_MODAL = 'ask_agent_modal';
+const TEAMMATE_BLOCK = 'teammate';
+const TEAMMATE_INPUT = 'teammate_select';
+const QUESTION_BLOCK = 'question';
+const QUESTION_INPUT = 'question_input';
+
+// plain_text_input initial values are capped at 3000 characters
+const MAX_INITIAL_QUESTION = 3000;
+
+interface AskModalMetadata {
+  channel: string;
+  threadTs: string;
+}
+
+export const askShortcutHandlers: InteractionHandlers = {
+  shortcuts: {
+    [ASK_SHORTCUT]: async (payload) => {
+      const metadata: AskModalMetadata = {
+        channel: payload.channel.id,
+        threadTs: payload.message.thread_ts || payload.message.ts,
+      };
+
+      await slack.views.open({
+        trigger_id: payload.trigger_id,
+        view: {
+          type: 'modal',
+          callback_id: ASK_MODAL,
+          private_metadata: JSON.stringify(metadata),
+          title: { type: 'plain_text', text: 'Ask an agent' },
+          submit: { type: 'plain_text', text: 'Ask' },
+          close: { type: 'plain_text', text: 'Cancel' },
+          blocks: [
+            {
+              type: 'input',
+              block_id: TEAMMATE_BLOCK,
+              label: { type: 'plain_text', text: 'Whose agent?' },
+              element: { type: 'users_select', action_id: TEAMMATE_INPUT }
+            },
+            {
+              type: 'input',
+              block_id: QUESTION_BLOCK,
+              label: { type: 'plain_text', text: 'Question' },
+              element: {
+                type: 'plain_text_input',
+                action_id: QUESTION_INPUT,
+                multiline: true,
+                initial_value: (payload.message.text || '').substring(0, MAX_INITIAL_QUESTION)
+              }
+            }
+          ]
+        }
+      });
+    },
+  },
+
+  views: {
+    [ASK_MODAL]: async (payload) => {
+      const targetUserId = viewValue(payload, TEAMMATE_BLOCK, TEAMMATE_INPUT)?.selected_user;
+      const question = viewValue(payload, QUESTION_BLOCK, QUESTION_INPUT)?.value?.trim();
+      if (!targetUserId) {
+        return viewError(TEAMMATE_BLOCK, 'Pick a teammate');
+      }
+      if (!question) {
+        return viewError(QUESTION_BLOCK, 'Please enter a question');
+      }
+
+      let metadata: AskModalMetadata;
+      try {
+        metadata = JSON.parse(payload.view.private_metadata) as AskModalMetadata;
+      } catch {
+        logger.slack.warn('Ask modal has invalid metadata');
+        return;
+      }
+
+      logger.slack.info('Ask shortcut submitted', { targetUserId, channel: metadata.channel, askerId: payload.user.id });
+      await getJobQueue().enqueue('ask_agent', {
+        request: {
+          targetUserId,
+          question,
+          channel: metadata.channel,
+          threadTs: metadata.threadTs,
+          askerId: payload.user.id,
+          teamId: payload.team?.id,
+        },
+      });
+    },
+  },
+};
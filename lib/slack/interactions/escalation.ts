@@ -0,0 +1,140 @@
+// lib/slack/interactions/escalation.ts
+// Owner actions on an escalated question: answer it themselves, or approve the agent replying
+
+import {
+  decodeEscalationPayload,
+  encodeEscalationPayload,
+  ESCALATION_ACTIONS,
+  type EscalationPayload,
+} from '@/lib/escalation/notify';
+import { getJobQueue } from '@/lib/jobs/queue';
+import { logger } from '@/lib/logger';
+import { slack } from '../client';
+import { viewError, viewValue, type BlockActionsPayload, type InteractionHandlers } from './types';
+
+const ANSWER_MODAL = 'escalation_answer_modal';
+const ANSWER_BLOCK = 'answer';
+const ANSWER_INPUT = 'answer_input';
+
+// Where the owner's DM lives, so it can be marked as handled
+interface EscalationModalMetadata {
+  escalation: string;
+  dmChannel: string;
+  dmTs: string;
+}
+
+// Replace the DM's buttons with a note about what the owner chose
+async function markHandled(dmChannel: string, dmTs: string, payload: EscalationPayload, note: string) {
+  await slack.chat.update({
+    channel: dmChannel,
+    ts: dmTs,
+    text: note,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*Question in <#${payload.channel}>:*\n>${payload.question}` }
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: note }]
+      }
+    ]
+  });
+}
+
+function dmLocation(payload: BlockActionsPayload): { dmChannel: string; dmTs: string } | null {
+  const dmChannel = payload.channel?.id;
+  const dmTs = payload.message?.ts;
+  return dmChannel && dmTs ? { dmChannel, dmTs } : null;
+}
+
+export const escalationHandlers: InteractionHandlers = {
+  actions: {
+    // Edit: the owner writes the answer in a modal
+    [ESCALATION_ACTIONS.answer]: async (payload, action) => {
+      const escalation = decodeEscalationPayload(action.value);
+      const dm = dmLocation(payload);
+      if (!escalation || !dm || escalation.ownerId !== payload.user.id) {
+        logger.slack.warn('Rejected escalation answer action', { userId: payload.user.id });
+        return;
+      }
+
+      const metadata: EscalationModalMetadata = { escalation: encodeEscalationPayload(escalation), ...dm };
+      await slack.views.open({
+        trigger_id: payload.trigger_id,
+        view: {
+          type: 'modal',
+          callback_id: ANSWER_MODAL,
+          private_metadata: JSON.stringify(metadata),
+          title: { type: 'plain_text', text: 'Answer question' },
+          submit: { type: 'plain_text', text: 'Post answer' },
+          close: { type: 'plain_text', text: 'Cancel' },
+          blocks: [
+            {
+              type: 'section',
+              text: { type: 'mrkdwn', text: `>${escalation.question}` }
+            },
+            {
+              type: 'input',
+              block_id: ANSWER_BLOCK,
+              label: { type: 'plain_text', text: 'Your answer' },
+              element: { type: 'plain_text_input', action_id: ANSWER_INPUT, multiline: true }
+            }
+          ]
+        }
+      });
+    },
+
+    // Approve: the agent answers, bypassing the rule that escalated it
+    [ESCALATION_ACTIONS.letAgentReply]: async (payload, action) => {
+      const escalation = decodeEscalationPayload(action.value);
+      const dm = dmLocation(payload);
+      if (!escalation || !dm || escalation.ownerId !== payload.user.id) {
+        logger.slack.warn('Rejected let-agent-reply action', { userId: payload.user.id });
+        return;
+      }
+
+      await markHandled(dm.dmChannel, dm.dmTs, escalation, '🤖 You let your agent reply.');
+      await getJobQueue().enqueue('ask_agent', {
+        request: { targetUserId: escalation.ownerId, question: escalation.question, channel: escalation.channel, threadTs: escalation.threadTs, askerId: escalation.askerId },
+        skipEscalation: true,
+      });
+    },
+  },
+
+  views: {
+    [ANSWER_MODAL]: async (payload) => {
+      const answer = viewValue(payload, ANSWER_BLOCK, ANSWER_INPUT)?.value?.trim();
+      if (!answer) {
+        return viewError(ANSWER_BLOCK, 'Please write an answer');
+      }
+
+      let metadata: EscalationModalMetadata;
+      try {
+        metadata = JSON.parse(payload.view.private_metadata) as EscalationModalMetadata;
+      } catch {
+        logger.slack.warn('Escalation modal has invalid metadata');
+        return;
+      }
+      const escalation = decodeEscalationPayload(metadata.escalation);
+      if (!escalation || escalation.ownerId !== payload.user.id) {
+        logger.slack.warn('Rejected escalation answer', { userId: payload.user.id });
+        return;
+      }
+
+      await slack.chat.postMessage({
+        channel: escalation.channel,
+        thread_ts: escalation.threadTs,
+        text: answer,
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: `💬 *<@${escalation.ownerId}> answered:*\n\n${answer}` }
+          }
+        ]
+      });
+      await markHandled(metadata.dmChannel, metadata.dmTs, escalation, '✅ You answered this yourself.');
+      logger.slack.info('Owner answered escalated question', { ownerId: escalation.ownerId, channel: escalation.channel });
+    },
+  },
+};
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryAnswerHistoryStore, getAnswerHistoryStore, setAnswerHistoryStore } from '@/lib/history/store';
+import { FEEDBACK_ACTIONS } from '../blocks';
+import { feedbackHandlers } from './feedback';
+import type { BlockActionsPayload } from './types';
+
+const slack = vi.hoisted(() => ({
+  chat: {
+    postMessage: vi.fn(),
+    postEphemeral: vi.fn(),
+  },
+}));
+
+vi.mock('../client', () => ({ slack }));
+
+const press = (actionId: string, userId: string, messageTs = '200.1') => {
+  const action = { action_id: actionId, block_id: 'feedback', value: 'UOWNER' };
+  const payload: BlockActionsPayload = {
+    type: 'block_actions',
+    user: { id: userId },
+    trigger_id: 'trigger',
+    channel: { id: 'C1' },
+    message: { ts: messageTs, thread_ts: '100.1' },
+    actions: [action],
+  };
+  return feedbackHandlers.actions![actionId](payload, action);
+};
+
+// DMs to the owner, as opposed to thanks for the person who pressed the button
+const ownerDms = () => slack.chat.postMessage.mock.calls.filter(([message]) => message.channel === 'UOWNER');
+
+describe('answer feedback', () => {
+  beforeEach(async () => {
+    setAnswerHistoryStore(createInMemoryAnswerHistoryStore());
+    await getAnswerHistoryStore().record({
+      ownerId: 'UOWNER',
+      askerId: 'UASKER',
+      channel: 'C1',
+      threadTs: '100.1',
+      messageTs: '200.1',
+      question: 'what are you working on?',
+      answer: 'The importer',
+      sources: [],
+      permalink: 'https://slack.test/p200',
+    });
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+    setAnswerHistoryStore(null);
+  });
+
+  it('records one wrong flag per person and tells the owner only the first time', async () => {
+    await press(FEEDBACK_ACTIONS.wrong, 'U1');
+    await press(FEEDBACK_ACTIONS.wrong, 'U1');
+    await press(FEEDBACK_ACTIONS.helpful, 'U1');
+    await press(FEEDBACK_ACTIONS.wrong, 'U1');
+
+    expect(ownerDms()).toEqual([[{
+      channel: 'UOWNER',
+      text: '🚩 <@U1> flagged an answer from your agent as wrong: <https://slack.test/p200|view thread>',
+    }]]);
+    const [record] = await getAnswerHistoryStore().list('UOWNER');
+    expect(record.feedback).toEqual([{ userId: 'U1', rating: 'wrong', at: expect.any(String) }]);
+    expect(record.flaggedBy).toEqual(['U1']);
+    expect(slack.chat.postEphemeral).toHaveBeenCalledTimes(4);
+  });
+
+  it('tells the owner about each person who flags the answer', async () => {
+    await press(FEEDBACK_ACTIONS.wrong, 'U1');
+    await press(FEEDBACK_ACTIONS.wrong, 'U2');
+
+    expect(ownerDms().map(([message]) => message.text)).toEqual([
+      expect.stringContaining('<@U1>'),
+      expect.stringContaining('<@U2>'),
+    ]);
+  });
+
+  it('keeps the time of the first rating when it is repeated', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-10-19T10:00:00Z') });
+    await press(FEEDBACK_ACTIONS.helpful, 'U1');
+    vi.setSystemTime(Date.parse('2026-10-19T11:00:00Z'));
+    await press(FEEDBACK_ACTIONS.helpful, 'U1');
+    vi.useRealTimers();
+
+    const [record] = await getAnswerHistoryStore().list('UOWNER');
+    expect(record.feedback).toEqual([{ userId: 'U1', rating: 'helpful', at: '2026-10-19T10:00:00.000Z' }]);
+    expect(ownerDms()).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+// lib/slack/interactions/feedback.ts
+// 👍 / 👎 / Wrong buttons under each agent answer
+
+import { getAnswerHistoryStore, type FeedbackRating } from '@/lib/history/store';
+import { logger } from '@/lib/logger';
+import { FEEDBACK_ACTIONS } from '../blocks';
+import { slack } from '../client';
+import type { ActionHandler, InteractionHandlers } from './types';
+
+const THANKS: Record<FeedbackRating, string> = {
+  helpful: '👍 Thanks! Glad the agent helped.',
+  unhelpful: '👎 Thanks for the feedback - the owner will see it in their review.',
+  wrong: '🚩 Thanks for flagging this. The owner has been notified.',
+};
+
+function feedbackHandler(rating: FeedbackRating): ActionHandler {
+  return async (payload, action) => {
+    const ownerId = action.value;
+    const channel = payload.channel?.id;
+    const messageTs = payload.message?.ts;
+    if (!ownerId || !channel || !messageTs) {
+      logger.slack.warn('Feedback action missing context', { actionId: action.action_id });
+      return;
+    }
+
+    const result = await getAnswerHistoryStore().addFeedback(messageTs, ownerId, {
+      userId: payload.user.id,
+      rating,
+      at: new Date().toISOString(),
+    });
+    logger.slack.info('Answer feedback received', { ownerId, rating, recorded: !!result, userId: payload.user.id });
+
+    await slack.chat.postEphemeral({
+      channel,
+      user: payload.user.id,
+      thread_ts: payload.message?.thread_ts,
+      text: THANKS[rating],
+    });
+
+    // A wrong answer is worth the owner's attention right away, not just in tomorrow's digest.
+    // Once per person and answer, however often they press the button. An answer missing from
+    // the history can't be checked for repeats, so it is always reported.
+    if (rating === 'wrong' && (!result || result.firstFlag)) {
+      const permalink = result?.record.permalink ?? null;
+      await slack.chat.postMessage({
+        channel: ownerId,
+        text: `🚩 <@${payload.user.id}> flagged an answer from your agent as wrong${permalink ? `: <${permalink}|view thread>` : '.'}`,
+      });
+    }
+  };
+}
+
+export const feedbackHandlers: InteractionHandlers = {
+  actions: {
+    [FEEDBACK_ACTIONS.helpful]: feedbackHandler('helpful'),
+    [FEEDBACK_ACTIONS.unhelpful]: feedbackHandler('unhelpful'),
+    [FEEDBACK_ACTIONS.wrong]: feedbackHandler('wrong'),
+  },
+};
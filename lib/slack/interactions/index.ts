@@ -0,0 +1,53 @@
+// lib/slack/interactions/index.ts
+// Routes interactivity payloads to the handler registered for their action, view or shortcut
+
+import { logger } from '@/lib/logger';
+import { askShortcutHandlers } from './ask-shortcut';
+import { escalationHandlers } from './escalation';
+import { feedbackHandlers } from './feedback';
+import type { ActionHandler, InteractionHandlers, InteractionPayload, ShortcutHandler, ViewErrorsResponse, ViewSubmissionHandler } from './types';
+
+const registry: InteractionHandlers[] = [feedbackHandlers, escalationHandlers, askShortcutHandlers];
+
+const actionHandlers: Record<string, ActionHandler> = Object.assign({}, ...registry.map((handlers) => handlers.actions ?? {}));
+const viewHandlers: Record<string, ViewSubmissionHandler> = Object.assign({}, ...registry.map((handlers) => handlers.views ?? {}));
+const shortcutHandlers: Record<string, ShortcutHandler> = Object.assign({}, ...registry.map((handlers) => handlers.shortcuts ?? {}));
+
+// Returns a body for Slack when the handler needs to respond inline (view validation errors)
+export async function dispatchInteraction(payload: InteractionPayload): Promise<ViewErrorsResponse | void> {
+  switch (payload.type) {
+    case 'block_actions': {
+      for (const action of payload.actions) {
+        const handler = actionHandlers[action.action_id];
+        if (!handler) {
+          logger.slack.debug('No handler for action', { actionId: action.action_id });
+          continue;
+        }
+        logger.slack.info('Dispatching block action', { actionId: action.action_id, userId: payload.user.id });
+        await handler(payload, action);
+      }
+      return;
+    }
+    case 'view_submission': {
+      const handler = viewHandlers[payload.view.callback_id];
+      if (!handler) {
+        logger.slack.warn('No handler for view submission', { callbackId: payload.view.callback_id });
+        return;
+      }
+      logger.slack.info('Dispatching view submission', { callbackId: payload.view.callback_id, userId: payload.user.id });
+      return handler(payload);
+    }
+    case 'message_action': {
+      const handler = shortcutHandlers[payload.callback_id];
+      if (!handler) {
+        logger.slack.warn('No handler for shortcut', { callbackId: payload.callback_id });
+        return;
+      }
+      logger.slack.info('Dispatching message shortcut', { callbackId: payload.callback_id, userId: payload.user.id });
+      await handler(payload);
+      return;
+    }
+  }
+}
+
+export type { InteractionPayload } from './types';
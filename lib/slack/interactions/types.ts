@@ -0,0 +1,77 @@
+// lib/slack/interactions/types.ts
+// The subset of Slack interactivity payloads the bot handles
+// See https://api.slack.com/interactivity/handling#payloads
+
+export interface SlackUserRef {
+  id: string;
+  name?: string;
+}
+
+export interface BlockAction {
+  action_id: string;
+  block_id: string;
+  value?: string;
+}
+
+export interface BlockActionsPayload {
+  type: 'block_actions';
+  user: SlackUserRef;
+  trigger_id: string;
+  channel?: { id: string };
+  message?: { ts: string; thread_ts?: string; text?: string };
+  actions: BlockAction[];
+}
+
+export interface ViewStateValue {
+  type: string;
+  value?: string | null;
+  selected_user?: string | null;
+}
+
+export interface ViewSubmissionPayload {
+  type: 'view_submission';
+  user: SlackUserRef;
+  team?: { id: string } | null;
+  view: {
+    callback_id: string;
+    private_metadata: string;
+    state: { values: Record<string, Record<string, ViewStateValue>> };
+  };
+}
+
+export interface MessageShortcutPayload {
+  type: 'message_action';
+  callback_id: string;
+  trigger_id: string;
+  user: SlackUserRef;
+  channel: { id: string };
+  message: { ts: string; thread_ts?: string; text?: string };
+}
+
+export type InteractionPayload = BlockActionsPayload | ViewSubmissionPayload | MessageShortcutPayload;
+
+// Returned from a view submission to keep the modal open with field errors
+export interface ViewErrorsResponse {
+  response_action: 'errors';
+  errors: Record<string, string>;
+}
+
+export function viewError(blockId: string, message: string): ViewErrorsResponse {
+  return { response_action: 'errors', errors: { [blockId]: message } };
+}
+
+// Handlers must return quickly (Slack waits at most 3 seconds); long work is started, not awaited
+export type ActionHandler = (payload: BlockActionsPayload, action: BlockAction) => Promise<void>;
+export type ViewSubmissionHandler = (payload: ViewSubmissionPayload) => Promise<ViewErrorsResponse | void>;
+export type ShortcutHandler = (payload: MessageShortcutPayload) => Promise<void>;
+
+export interface InteractionHandlers {
+  actions?: Record<string, ActionHandler>;
+  views?: Record<string, ViewSubmissionHandler>;
+  shortcuts?: Record<string, ShortcutHandler>;
+}
+
+// Read a single input value from a submitted view
+export function viewValue(payload: ViewSubmissionPayload, blockId: string, actionId: string): ViewStateValue | undefined {
+  return payload.view.state.values[blockId]?.[actionId];
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryAgentProfileStore, getAgentProfileStore, setAgentProfileStore } from '@/lib/agents/store';
+import { createConnectorContextProvider, createFakeConnector, setContextProvider } from '@/lib/context/provider';
+import { createInMemoryConversationStore, getConversationStore, setConversationStore } from '@/lib/conversations/store';
+import { createInMemoryAnswerHistoryStore, getAnswerHistoryStore, setAnswerHistoryStore } from '@/lib/history/store';
+import { createInMemoryJobQueue, getJobQueue, setJobQueue } from '@/lib/jobs/queue';
+import { drainQueue } from '@/lib/jobs/worker';
+import { createInMemoryVectorIndexStore, setVectorIndexStore } from '@/lib/retrieval/store';
+import { createInMemoryEventDedupStore, setEventDedupStore } from './dedup';
+import { askAgent, handleAppMention, type MentionEvent } from './mention';
+
+const slack = vi.hoisted(() => ({
+  chat: {
+    postMessage: vi.fn(),
+    update: vi.fn(),
+    getPermalink: vi.fn(),
+  },
+  users: {
+    info: vi.fn(),
+  },
+}));
+
+vi.mock('./client', () => ({ slack }));
+
+const BOT = 'UBOT';
+const CHANNEL = 'C1';
+
+const mention = (text: string): MentionEvent => ({ text, channel: CHANNEL, ts: '100.1', user: 'UASKER', team: 'T1' });
+
+// The last chat.update of the placeholder, i.e. what the thread ends up showing
+const finalUpdate = () => slack.chat.update.mock.calls.at(-1)?.[0];
+
+describe('mentions answered by the mock model', () => {
+  beforeEach(() => {
+    vi.stubEnv('LLM_MODEL', 'mock:tools');
+    vi.stubEnv('LLM_FALLBACK_MODEL', '');
+    vi.stubEnv('EMBEDDING_MODEL', 'local:hash');
+    slack.chat.postMessage.mockResolvedValue({ ok: true, ts: '200.1' });
+    slack.chat.update.mockResolvedValue({ ok: true });
+    slack.chat.getPermalink.mockResolvedValue({ ok: true, permalink: 'https://slack.test/p200' });
+    slack.users.info.mockResolvedValue({ ok: true, user: { name: 'nobody' } });
+
+    setAgentProfileStore(createInMemoryAgentProfileStore({
+      U1: { name: 'jane', displayName: 'Jane', data: { calendar: [], slack: [], linear: ['PROJ-1 Ship the importer (In Progress)'] } },
+      U2: { name: 'sam', displayName: 'Sam', data: { calendar: [], slack: [], linear: ['PROJ-2 Fix login (Done)'] } },
+    }));
+    setContextProvider(createConnectorContextProvider([
+      createFakeConnector('github', {
+        U1: [{ id: 'github:acme/app#7', source: 'github', text: 'PR #7 Add CSV import', url: 'https://github.test/acme/app/pull/7' }],
+      }),
+    ]));
+    setConversationStore(createInMemoryConversationStore());
+    setAnswerHistoryStore(createInMemoryAnswerHistoryStore());
+    setVectorIndexStore(createInMemoryVectorIndexStore());
+    setEventDedupStore(createInMemoryEventDedupStore());
+    setJobQueue(createInMemoryJobQueue());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+    setAgentProfileStore(null);
+    setContextProvider(null);
+    setConversationStore(null);
+    setAnswerHistoryStore(null);
+    setVectorIndexStore(null);
+    setEventDedupStore(null);
+    setJobQueue(null);
+  });
+
+  it('posts a placeholder and replaces it with the cited answer', async () => {
+    await handleAppMention(mention('<@UBOT> ask <@U1> what are you working on?'), BOT);
+
+    expect(slack.chat.postMessage).toHaveBeenCalledOnce();
+    expect(slack.chat.postMessage).toHaveBeenCalledWith({ channel: CHANNEL, thread_ts: '100.1', text: 'Asking Jane\'s agent...' });
+    const update = finalUpdate();
+    expect(update).toMatchObject({ channel: CHANNEL, ts: '200.1' });
+    expect(update.text).toMatch(/^Mock answer to "what are you working on\?" based on 2 items/);
+    expect(update.text).not.toContain('Confidence');
+    expect(JSON.stringify(update.blocks)).toContain('https://github.test/acme/app/pull/7');
+  });
+
+  it('remembers the turn and records the answer for the owner\'s digest', async () => {
+    await handleAppMention(mention('<@UBOT> ask <@U1> what are you working on?'), BOT);
+
+    expect(await getConversationStore().get(CHANNEL, '100.1')).toMatchObject({
+      targetUserIds: ['U1'],
+      turns: [{ targetUserId: 'U1', question: 'what are you working on?' }],
+    });
+    expect(await getAnswerHistoryStore().list('U1')).toMatchObject([
+      { askerId: 'UASKER', messageTs: '200.1', permalink: 'https://slack.test/p200' },
+    ]);
+  });
+
+  it('answers a follow-up in the thread with the same agent', async () => {
+    await handleAppMention(mention('<@UBOT> ask <@U1> what are you working on?'), BOT);
+    await handleAppMention({ ...mention('<@UBOT> and tomorrow?'), ts: '100.2', thread_ts: '100.1' }, BOT);
+
+    expect(finalUpdate().text).toMatch(/^Mock answer to "and tomorrow\?"/);
+  });
+
+  it('explains how to ask instead of following up when the question names another teammate', async () => {
+    await handleAppMention(mention('<@UBOT> ask <@U1> what are you working on?'), BOT);
+    slack.chat.postMessage.mockClear();
+    await handleAppMention({ ...mention('<@UBOT> what about <@U2>?'), ts: '100.2', thread_ts: '100.1' }, BOT);
+
+    expect(slack.chat.postMessage).toHaveBeenCalledOnce();
+    expect(slack.chat.postMessage.mock.calls[0][0].text).toMatch(/^❓ Who should I ask\?/);
+    expect((await getConversationStore().get(CHANNEL, '100.1'))!.turns).toHaveLength(1);
+  });
+
+  it('notifies the owner of an escalated question once, however often the job is retried', async () => {
+    await getAgentProfileStore().modify('U1', () => ({ escalation: { keywords: ['salary'], blockedChannels: [], minConfidence: null } }));
+    const ownerDms = () => slack.chat.postMessage.mock.calls.filter(([message]) => message.channel === 'U1');
+
+    await handleAppMention(mention('<@UBOT> ask <@U1> what is your salary?'), BOT);
+    await handleAppMention(mention('<@UBOT> ask <@U1> what is your salary?'), BOT);
+    expect(ownerDms()).toHaveLength(1);
+
+    await handleAppMention({ ...mention('<@UBOT> ask <@U1> and your salary next year?'), ts: '100.2', thread_ts: '100.1' }, BOT);
+    expect(ownerDms()).toHaveLength(2);
+  });
+
+  it('answers with the fallback model when the primary fails', async () => {
+    vi.stubEnv('LLM_MODEL', 'mock:fail');
+    vi.stubEnv('LLM_FALLBACK_MODEL', 'mock:echo');
+
+    await handleAppMention(mention('<@UBOT> ask <@U1> any blockers?'), BOT);
+
+    expect(finalUpdate().text).toBe('Mock answer to "any blockers?".');
+  });
+
+  it('fails the job after the model times out and no answer replaces the placeholder', async () => {
+    vi.stubEnv('LLM_MODEL', 'mock:slow');
+    vi.stubEnv('LLM_TIMEOUT_MS', '20');
+
+    await expect(handleAppMention(mention('<@UBOT> ask <@U1> any blockers?'), BOT)).rejects.toThrow(/timed out/);
+
+    expect(slack.chat.update).not.toHaveBeenCalled();
+    expect(await getAnswerHistoryStore().list('U1')).toEqual([]);
+  });
+
+  it('replaces the placeholder with an apology once the job runs out of attempts', async () => {
+    vi.stubEnv('LLM_MODEL', 'mock:fail');
+    await getJobQueue().enqueue('app_mention', { event: mention('<@UBOT> ask <@U1> any blockers?'), botUserId: BOT }, { maxAttempts: 1 });
+
+    await drainQueue({ budgetMs: 5000 });
+
+    expect(finalUpdate()).toEqual({
+      channel: CHANNEL,
+      ts: '200.1',
+      text: '❌ Sorry, I couldn\'t get an answer after 1 attempt. Please try asking again later.',
+      blocks: [],
+    });
+    expect(await getJobQueue().listDeadLetters()).toHaveLength(1);
+  });
+
+  it('combines the answers of several agents in one message', async () => {
+    await handleAppMention(mention('<@UBOT> ask <@U1> and <@U2> what shipped?'), BOT);
+
+    expect(slack.chat.postMessage).toHaveBeenCalledWith(expect.objectContaining({ text: 'Asking 2 agents...' }));
+    const update = finalUpdate();
+    expect(update.text).toContain('Jane: Mock answer to "what shipped?"');
+    expect(update.text).toContain('Sam: Mock answer to "what shipped?"');
+    expect(update.blocks.filter((block: { type: string }) => block.type === 'divider')).toHaveLength(1);
+  });
+
+  it('reports a failed answer instead of throwing when asking without a thread', async () => {
+    vi.stubEnv('LLM_MODEL', 'mock:fail');
+
+    const reply = await askAgent('U1', { question: 'any blockers?', channel: CHANNEL, threadTs: '100.1', askerId: 'UASKER' }, []);
+
+    expect(reply).toEqual({ status: 'failed', userId: 'U1', displayName: 'Jane' });
+  });
+
+  it('uses the workspace\'s model override', async () => {
+    vi.stubEnv('LLM_WORKSPACE_OVERRIDES', JSON.stringify({ T1: { primary: 'mock:echo' } }));
+
+    await handleAppMention(mention('<@UBOT> ask <@U1> any blockers?'), BOT);
+
+    expect(finalUpdate().text).toBe('Mock answer to "any blockers?".');
+  });
+});
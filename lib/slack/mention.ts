@@ -0,0 +1,548 @@
+// lib/slack/mention.ts
+// Handles bot mentions and DMs: parse, ask one or more agents, post answers in the thread
+
+import { isPaused, pauseEndText } from '@/lib/agents/pause';
+import { getAgentData, getAllAgentIds } from '@/lib/agents/profiles';
+import type { AgentPause } from '@/lib/agents/types';
+import type { Citation } from '@/lib/context/citations';
+import { listSources } from '@/lib/context/sources';
+import { getConversationStore, type ConversationTurn } from '@/lib/conversations/store';
+import { escalationReplyText, notifyOwner, type EscalationPayload } from '@/lib/escalation/notify';
+import { checkAfterAnswer, checkBeforeAnswer, DEFAULT_ESCALATION_RULES } from '@/lib/escalation/rules';
+import { checkQuestion, logQuestionBlocked } from '@/lib/guardrails/checks';
+import { getGuardrailPolicy } from '@/lib/guardrails/policy';
+import { getAnswerHistoryStore } from '@/lib/history/store';
+import { logger } from '@/lib/logger';
+import { checkAccess, DEFAULT_PRIVACY_SETTINGS } from '@/lib/privacy/settings';
+import { agentAnswerBlocks, type SlackBlock } from './blocks';
+import { slack } from './client';
+import { namesTeammate, parseDirectMessage, parseMessage, type ParseErrorCode } from './parse';
+import { createMessageStreamer } from './stream';
+import { resolveTargetUserIds } from './targets';
+
+// Lazy load the agent (and with it the AI SDK) to reduce cold start time
+let agentModule: typeof import('@/lib/llm/agent') | null = null;
+
+async function getAnswerQuestion() {
+  if (!agentModule) {
+    agentModule = await import('@/lib/llm/agent');
+  }
+  return agentModule.answerQuestion;
+}
+
+export interface MentionEvent {
+  text: string;
+  channel: string;
+  ts: string;
+  thread_ts?: string;
+  user?: string;
+  // 'im' for DMs with the bot
+  channel_type?: string;
+  // Slack workspace the message was sent in
+  team?: string;
+}
+
+// Supplied by the job worker so a retry reuses the placeholder message from the failed attempt
+export interface MentionProgress {
+  attempt: number;
+  placeholderTs?: string;
+  savePlaceholder(ts: string): Promise<void>;
+}
+
+// Post the "Asking..." message, or reuse the one from an earlier attempt
+async function showPlaceholder(channel: string, threadTs: string, text: string, progress?: MentionProgress): Promise<string> {
+  if (progress?.placeholderTs) {
+    await slack.chat.update({
+      channel,
+      ts: progress.placeholderTs,
+      text: `${text} (retry ${progress.attempt - 1})`,
+      blocks: []
+    });
+    return progress.placeholderTs;
+  }
+  
+  const message = await slack.chat.postMessage({
+    channel,
+    thread_ts: threadTs,
+    text
+  });
+  await progress?.savePlaceholder(message.ts!);
+  return message.ts!;
+}
+
+export function pausedReplyText(displayName: string, ownerId: string, pause: AgentPause): string {
+  return `⏸️ ${displayName}'s agent is paused ${pauseEndText(pause)}. Try asking <@${ownerId}> directly.`;
+}
+
+// Deliberately vague: the asker shouldn't learn who is on the owner's allow list
+export function restrictedReplyText(displayName: string, ownerId: string): string {
+  return `🔒 ${displayName}'s agent can't answer this here. Try asking <@${ownerId}> directly.`;
+}
+
+// Doesn't say which guardrail fired, so it can't be used to probe the checks
+export function refusedReplyText(displayName: string, ownerId: string): string {
+  return `🛡️ ${displayName}'s agent won't answer that. Try asking <@${ownerId}> directly.`;
+}
+
+// Help text for each way a mention can fail to parse
+const PARSE_HELP: Record<ParseErrorCode, string> = {
+  missing_bot_mention: '❓ I couldn\'t find my mention in that message. Try:\n`@Team Agent Bot ask @john what is he working on?`',
+  empty: '👋 Ask me about a teammate! Try:\n`@Team Agent Bot ask @john what is he working on?`',
+  missing_target: '❓ Who should I ask? Mention a teammate before your question:\n`@Team Agent Bot ask @john what is he working on?`',
+  missing_question: '❓ What would you like to know? Add a question after the teammate:\n`@Team Agent Bot ask @john what is he working on?`'
+};
+
+// DMs don't need the bot mention, so the examples drop it
+const DM_PARSE_HELP: Record<ParseErrorCode, string> = {
+  missing_bot_mention: PARSE_HELP.missing_bot_mention,
+  empty: '👋 Ask me about a teammate and only you will see the answer. Try:\n`what is @john working on?`',
+  missing_target: '❓ Who should I ask? Mention a teammate in your question:\n`what is @john working on?`',
+  missing_question: '❓ What would you like to know? Try:\n`what is @john working on?`'
+};
+
+// Throws if answering fails, so the job worker can retry
+export async function handleAppMention(event: MentionEvent, botUserId: string | null, progress?: MentionProgress) {
+  logger.mention.info('Starting to handle app mention');
+  const text = event.text;
+  const channel = event.channel;
+  // Reply in the existing thread, or start one under the mention
+  const threadTs = event.thread_ts || event.ts;
+  const askerId = event.user ?? null;
+  const teamId = event.team;
+  
+  logger.mention.debug('Original message text', { text });
+  
+  // Earlier Q&A in this thread, if any
+  const conversation = await getConversationStore().get(channel, threadTs).catch((error) => {
+    logger.mention.error('Failed to load conversation', error as Error, { channel, threadTs });
+    return null;
+  });
+  
+  // Parse the message to extract target user and question
+  const isDirectMessage = event.channel_type === 'im';
+  const parsed = isDirectMessage ? parseDirectMessage(text, botUserId) : parseMessage(text, botUserId);
+  
+  let question: string;
+  let targetUserIds: string[];
+  
+  if (parsed.ok) {
+    question = parsed.question;
+    logger.mention.info('Parsed message', { targets: parsed.targets, question });
+    // Expand user groups into their members
+    targetUserIds = await resolveTargetUserIds(parsed.targets);
+  } else if (
+    parsed.error.code === 'missing_target' && parsed.error.remainder && conversation
+    && !namesTeammate(parsed.error.remainder)
+  ) {
+    // Follow-up in a known thread - keep asking the same agents. A teammate mentioned mid-question
+    // is someone else to ask, and the help explains how.
+    question = parsed.error.remainder;
+    targetUserIds = conversation.targetUserIds;
+    logger.mention.info('Follow-up in existing conversation', {
+      targetUserIds,
+      question,
+      previousTurns: conversation.turns.length
+    });
+  } else {
+    logger.mention.warn('Could not parse mention', { code: parsed.error.code, reason: parsed.error.message });
+    await slack.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: (isDirectMessage ? DM_PARSE_HELP : PARSE_HELP)[parsed.error.code]
+    });
+    return;
+  }
+  
+  // Prior turns with a given agent in this thread
+  const historyFor = (userId: string) =>
+    conversation?.turns.filter((turn) => turn.targetUserId === userId) ?? [];
+  
+  if (targetUserIds.length === 0) {
+    logger.mention.warn('No users found for targets', { text });
+    await slack.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: '❓ I couldn\'t find anyone in that group. Try mentioning teammates directly.'
+    });
+    return;
+  }
+  
+  if (targetUserIds.length > 1) {
+    await handleMultiAgentMention(targetUserIds, { question, channel, threadTs, askerId, teamId, messageTs: event.ts }, historyFor, progress);
+    return;
+  }
+  
+  const [targetUserId] = targetUserIds;
+  await askAgentInThread({ targetUserId, question, channel, threadTs, askerId, teamId, messageTs: event.ts }, historyFor(targetUserId), { progress });
+}
+
+// Ask one teammate's agent and post the answer in the thread. Throws on failure so the job can retry.
+// Escalation rules are skipped when the owner has already chosen to let the agent reply.
+export async function askAgentInThread(
+  request: AskRequest & { targetUserId: string },
+  history: ConversationTurn[] = [],
+  options: { skipEscalation?: boolean; progress?: MentionProgress } = {}
+) {
+  const { targetUserId, question, channel, threadTs, askerId, teamId, messageTs } = request;
+  
+  logger.mention.info('Looking up agent data', { 
+    targetUserId, 
+    availableAgentIds: await getAllAgentIds() 
+  });
+  // Get agent data
+  const agentData = await getAgentData(targetUserId);
+  
+  if (!agentData) {
+    logger.mention.warn('No agent data found', { 
+      targetUserId, 
+      availableAgentIds: await getAllAgentIds() 
+    });
+    const userInfo = await slack.users.info({ user: targetUserId });
+    logger.mention.info('User info retrieved', { userName: userInfo.user?.name });
+    await slack.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: `@${userInfo.user?.name} hasn't set up their agent yet. They can use \`/doppel setup\` to get started!`
+    });
+    return;
+  }
+  
+  logger.mention.info('Found agent data', {
+    name: agentData.name,
+    displayName: agentData.displayName,
+    hasCalendar: agentData.data.calendar.length > 0,
+    hasSlack: agentData.data.slack.length > 0,
+    hasLinear: agentData.data.linear.length > 0
+  });
+  
+  if (agentData.pause && isPaused(agentData)) {
+    logger.mention.info('Agent is paused', { targetUserId, until: agentData.pause.until });
+    await slack.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: pausedReplyText(agentData.displayName, targetUserId, agentData.pause)
+    });
+    return;
+  }
+  
+  // Owner's privacy settings decide who may ask and where
+  const denial = checkAccess(agentData.privacy ?? DEFAULT_PRIVACY_SETTINGS, { askerId, channel });
+  if (denial) {
+    logger.mention.info('Ask denied by privacy settings', { targetUserId, reason: denial.type });
+    await slack.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: restrictedReplyText(agentData.displayName, targetUserId)
+    });
+    return;
+  }
+  
+  // Questions that try to take over the agent never reach it
+  const check = checkQuestion(question, getGuardrailPolicy());
+  if (!check.ok) {
+    logQuestionBlocked(check, { targetUserId, askerId, channel });
+    await slack.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: refusedReplyText(agentData.displayName, targetUserId)
+    });
+    return;
+  }
+  
+  // Owner's escalation rules - some questions go to them instead of the agent
+  const rules = options.skipEscalation ? DEFAULT_ESCALATION_RULES : agentData.escalation ?? DEFAULT_ESCALATION_RULES;
+  const escalation: EscalationPayload = { ownerId: targetUserId, askerId, channel, threadTs, question };
+  const preAnswerReason = checkBeforeAnswer(rules, { question, channel });
+  if (preAnswerReason) {
+    logger.mention.info('Escalation rule fired before answering', { targetUserId, reason: preAnswerReason });
+    await slack.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: escalationReplyText(agentData.displayName, targetUserId)
+    });
+    await notifyOwner(escalation, preAnswerReason, messageTs);
+    return;
+  }
+  
+  // Show thinking message
+  logger.mention.debug('Posting thinking message');
+  const thinkingTs = await showPlaceholder(channel, threadTs, `Asking ${agentData.displayName}'s agent...`, options.progress);
+  
+  // Stream the answer into the placeholder as it's written. A confidence rule needs the whole
+  // answer before anyone sees it, so those answers are only shown once complete.
+  const streamer = rules.minConfidence === null
+    ? createMessageStreamer(channel, thinkingTs, agentData.displayName)
+    : null;
+  
+  try {
+    // Let the agent look up what it needs and answer
+    const answerQuestion = await getAnswerQuestion();
+    const { answer, confidence, citations } = await answerQuestion(targetUserId, agentData, question, history, {
+      teamId,
+      onText: streamer ? (text) => streamer.push(text) : undefined,
+    });
+    await streamer?.close();
+    
+    const postAnswerReason = checkAfterAnswer(rules, confidence);
+    if (postAnswerReason) {
+      logger.mention.info('Escalation rule fired after answering', { targetUserId, reason: postAnswerReason });
+      await slack.chat.update({
+        channel,
+        ts: thinkingTs,
+        text: escalationReplyText(agentData.displayName, targetUserId)
+      });
+      await notifyOwner(escalation, postAnswerReason, messageTs);
+      return;
+    }
+    
+    logger.mention.debug('Updating Slack message with answer');
+    // Update message with answer
+    await slack.chat.update({
+      channel,
+      ts: thinkingTs,
+      text: answer,
+      blocks: agentAnswerBlocks(targetUserId, agentData.displayName, answer, citations)
+    });
+    logger.mention.info('Successfully updated Slack message', { 
+      channel, 
+      messageTs: thinkingTs 
+    });
+    
+    await rememberTurns(channel, threadTs, [targetUserId], [
+      { targetUserId, question, answer, askedAt: new Date().toISOString() }
+    ]);
+    await recordAnswers(channel, threadTs, thinkingTs, askerId, question, [
+      { ownerId: targetUserId, answer, citations }
+    ]);
+    
+  } catch (error) {
+    logger.mention.error('Error in askAgentInThread', error as Error, {
+      channel,
+      targetUserId,
+      question
+    });
+    // Don't leave a half-written answer looking like the real one
+    if (streamer) {
+      await streamer.close();
+      if (streamer.started) {
+        await slack.chat.update({
+          channel,
+          ts: thinkingTs,
+          text: `⚠️ ${agentData.displayName}'s agent ran into a problem partway through its answer.`,
+          blocks: []
+        }).catch((updateError) => {
+          logger.mention.error('Failed to replace partial answer', updateError as Error, { channel, messageTs: thinkingTs });
+        });
+      }
+    }
+    throw error;
+  }
+}
+
+export type AgentReply =
+  | { status: 'answered'; userId: string; displayName: string; answer: string; citations: Citation[] }
+  | { status: 'not_set_up'; userId: string; userName: string }
+  | { status: 'paused'; userId: string; displayName: string; pause: AgentPause }
+  | { status: 'restricted'; userId: string; displayName: string }
+  | { status: 'escalated'; userId: string; displayName: string }
+  | { status: 'refused'; userId: string; displayName: string }
+  | { status: 'failed'; userId: string; displayName: string };
+
+export interface AskRequest {
+  question: string;
+  channel: string;
+  threadTs: string;
+  askerId: string | null;
+  // Slack workspace, for its model overrides
+  teamId?: string;
+  // The mention that asked, so a retry escalates it to the owner only once
+  messageTs?: string;
+}
+
+// Ask one agent without posting anything; never throws so other answers still get posted.
+// Private asks have no thread for the owner to answer in, so escalations skip the owner DM,
+// and no channel the answer is posted in, so channel restrictions don't apply.
+export async function askAgent(
+  userId: string,
+  request: AskRequest,
+  history: ConversationTurn[],
+  options: { privately?: boolean } = {}
+): Promise<AgentReply> {
+  const { question, channel } = request;
+  const agentData = await getAgentData(userId).catch((error) => {
+    logger.mention.error('Failed to load agent data', error as Error, { userId });
+    return undefined;
+  });
+  
+  if (agentData === undefined) {
+    return { status: 'failed', userId, displayName: `<@${userId}>` };
+  }
+  
+  if (!agentData) {
+    const userInfo = await slack.users.info({ user: userId }).catch(() => null);
+    return { status: 'not_set_up', userId, userName: userInfo?.user?.name || userId };
+  }
+  
+  if (agentData.pause && isPaused(agentData)) {
+    return { status: 'paused', userId, displayName: agentData.displayName, pause: agentData.pause };
+  }
+  
+  const privacy = agentData.privacy ?? DEFAULT_PRIVACY_SETTINGS;
+  if (checkAccess(privacy, { askerId: request.askerId, channel: options.privately ? null : channel })) {
+    return { status: 'restricted', userId, displayName: agentData.displayName };
+  }
+  
+  const check = checkQuestion(question, getGuardrailPolicy());
+  if (!check.ok) {
+    logQuestionBlocked(check, { targetUserId: userId, askerId: request.askerId, channel, privately: !!options.privately });
+    return { status: 'refused', userId, displayName: agentData.displayName };
+  }
+  
+  const notify = !options.privately;
+  try {
+    const rules = agentData.escalation ?? DEFAULT_ESCALATION_RULES;
+    const escalation: EscalationPayload = { ownerId: userId, askerId: request.askerId, channel, threadTs: request.threadTs, question };
+    
+    const preAnswerReason = checkBeforeAnswer(rules, { question, channel });
+    if (preAnswerReason) {
+      if (notify) await notifyOwner(escalation, preAnswerReason, request.messageTs);
+      return { status: 'escalated', userId, displayName: agentData.displayName };
+    }
+    
+    const answerQuestion = await getAnswerQuestion();
+    const { answer, confidence, citations } = await answerQuestion(userId, agentData, question, history, { teamId: request.teamId });
+    
+    const postAnswerReason = checkAfterAnswer(rules, confidence);
+    if (postAnswerReason) {
+      if (notify) await notifyOwner(escalation, postAnswerReason, request.messageTs);
+      return { status: 'escalated', userId, displayName: agentData.displayName };
+    }
+    
+    return { status: 'answered', userId, displayName: agentData.displayName, answer, citations };
+  } catch (error) {
+    logger.mention.error('Agent failed to answer', error as Error, { userId, question });
+    return { status: 'failed', userId, displayName: agentData.displayName };
+  }
+}
+
+function agentReplyBlocks(reply: AgentReply): SlackBlock[] {
+  switch (reply.status) {
+    case 'answered':
+      return agentAnswerBlocks(reply.userId, reply.displayName, reply.answer, reply.citations);
+    case 'not_set_up':
+      return [{
+        type: 'section',
+        text: { type: 'mrkdwn', text: `⚠️ @${reply.userName} hasn't set up their agent yet. They can use \`/doppel setup\` to get started!` }
+      }];
+    case 'paused':
+      return [{
+        type: 'section',
+        text: { type: 'mrkdwn', text: pausedReplyText(reply.displayName, reply.userId, reply.pause) }
+      }];
+    case 'restricted':
+      return [{
+        type: 'section',
+        text: { type: 'mrkdwn', text: restrictedReplyText(reply.displayName, reply.userId) }
+      }];
+    case 'escalated':
+      return [{
+        type: 'section',
+        text: { type: 'mrkdwn', text: escalationReplyText(reply.displayName, reply.userId) }
+      }];
+    case 'refused':
+      return [{
+        type: 'section',
+        text: { type: 'mrkdwn', text: refusedReplyText(reply.displayName, reply.userId) }
+      }];
+    case 'failed':
+      return [{
+        type: 'section',
+        text: { type: 'mrkdwn', text: `⚠️ *${reply.displayName}'s Agent* couldn't answer right now.` }
+      }];
+  }
+}
+
+async function handleMultiAgentMention(
+  targetUserIds: string[],
+  request: AskRequest,
+  historyFor: (userId: string) => ConversationTurn[],
+  progress?: MentionProgress
+) {
+  const { question, channel, threadTs, askerId } = request;
+  logger.mention.info('Asking multiple agents', { targetUserIds, question });
+  
+  const thinkingTs = await showPlaceholder(channel, threadTs, `Asking ${targetUserIds.length} agents...`, progress);
+  
+  const replies = await Promise.all(targetUserIds.map((userId) => askAgent(userId, request, historyFor(userId))));
+  
+  // One section per person, separated by dividers
+  const blocks = replies.flatMap((reply, index) => [
+    ...(index > 0 ? [{ type: 'divider' } as SlackBlock] : []),
+    ...agentReplyBlocks(reply)
+  ]);
+  const fallbackText = replies
+    .map((reply) => reply.status === 'answered' ? `${reply.displayName}: ${reply.answer}` : '')
+    .filter(Boolean)
+    .join('\n\n') || 'None of the agents could answer.';
+  
+  await slack.chat.update({
+    channel,
+    ts: thinkingTs,
+    text: fallbackText,
+    blocks
+  });
+  logger.mention.info('Posted combined answer', {
+    channel,
+    messageTs: thinkingTs,
+    statuses: replies.map((reply) => reply.status)
+  });
+  
+  const askedAt = new Date().toISOString();
+  await rememberTurns(channel, threadTs, targetUserIds, replies.flatMap((reply) =>
+    reply.status === 'answered'
+      ? [{ targetUserId: reply.userId, question, answer: reply.answer, askedAt }]
+      : []
+  ));
+  await recordAnswers(channel, threadTs, thinkingTs, askerId, question, replies.flatMap((reply) =>
+    reply.status === 'answered'
+      ? [{ ownerId: reply.userId, answer: reply.answer, citations: reply.citations }]
+      : []
+  ));
+}
+
+// Log answers for the owners' review queue and morning digest
+async function recordAnswers(
+  channel: string,
+  threadTs: string,
+  messageTs: string,
+  askerId: string | null,
+  question: string,
+  answers: { ownerId: string; answer: string; citations: Citation[] }[]
+) {
+  if (answers.length === 0) return;
+  try {
+    const permalink = await slack.chat.getPermalink({ channel, message_ts: messageTs })
+      .then((result) => result.permalink ?? null)
+      .catch(() => null);
+    const history = getAnswerHistoryStore();
+    for (const { ownerId, answer, citations } of answers) {
+      await history.record({
+        ownerId, askerId, channel, threadTs, messageTs, question, answer,
+        sources: listSources(citations),
+        citations,
+        permalink,
+      });
+    }
+  } catch (error) {
+    logger.mention.error('Failed to record answer history', error as Error, { channel, messageTs });
+  }
+}
+
+// Save answered turns so follow-ups in the thread have context; failures only cost memory
+async function rememberTurns(channel: string, threadTs: string, targetUserIds: string[], turns: ConversationTurn[]) {
+  try {
+    await getConversationStore().append(channel, threadTs, targetUserIds, turns);
+  } catch (error) {
+    logger.mention.error('Failed to save conversation', error as Error, { channel, threadTs });
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { parseDirectMessage, parseMessage, parseQuestion, type MentionTarget, type ParseErrorCode } from './parse';
+
+const BOT = 'UBOT';
+const user = (id: string, label?: string): MentionTarget => ({ kind: 'user', id, ...(label && { label }) });
+const group = (id: string, label?: string): MentionTarget => ({ kind: 'usergroup', id, ...(label && { label }) });
+
+type Case =
+  | { name: string; text: string; targets: MentionTarget[]; question: string }
+  | { name: string; text: string; error: ParseErrorCode };
+
+describe('parseMessage', () => {
+  const cases: Case[] = [
+    // Bare mentions
+    { name: 'bare mention', text: '<@UBOT> <@U123> what are you working on?', targets: [user('U123')], question: 'what are you working on?' },
+    { name: 'ask keyword', text: '<@UBOT> ask <@U123> what is the status?', targets: [user('U123')], question: 'what is the status?' },
+    { name: 'labelled mention', text: '<@UBOT> ask <@U123|sarah> any blockers?', targets: [user('U123', 'sarah')], question: 'any blockers?' },
+    { name: 'possessive agent', text: '<@UBOT> ask <@U123>\'s agent: what is next?', targets: [user('U123')], question: 'what is next?' },
+    { name: 'question separator', text: '<@UBOT> <@U123> - how is the launch going?', targets: [user('U123')], question: 'how is the launch going?' },
+    { name: 'bot mention at the end', text: '<@U123> anything new? <@UBOT>', targets: [user('U123')], question: 'anything new?' },
+    { name: 'text before the targets', text: 'hey <@UBOT> ask <@U123> anything new?', error: 'missing_target' },
+    { name: 'bot mention with label', text: '<@UBOT|doppel> <@U123> status?', targets: [user('U123')], question: 'status?' },
+    { name: 'user group', text: '<@UBOT> ask <!subteam^S42|@eng> what shipped?', targets: [group('S42', '@eng')], question: 'what shipped?' },
+
+    // Multiple targets
+    { name: 'targets joined by and', text: '<@UBOT> ask <@U1> and <@U2> what is blocked?', targets: [user('U1'), user('U2')], question: 'what is blocked?' },
+    { name: 'targets joined by commas', text: '<@UBOT> <@U1>, <@U2>, and <@U3> standup?', targets: [user('U1'), user('U2'), user('U3')], question: 'standup?' },
+    { name: 'targets joined by ampersand', text: '<@UBOT> <@U1> & <!subteam^S9> plans?', targets: [user('U1'), group('S9')], question: 'plans?' },
+    { name: 'duplicate targets', text: '<@UBOT> <@U1> and <@U1> hello?', targets: [user('U1')], question: 'hello?' },
+
+    // Words and mentions inside the question are left alone
+    { name: 'ask and agent inside the question', text: '<@UBOT> <@U1> what\'s the task agenda? ask about the agent rollout', targets: [user('U1')], question: 'what\'s the task agenda? ask about the agent rollout' },
+    { name: 'mention inside the question', text: '<@UBOT> ask <@U1> did you pair with <@U2> today?', targets: [user('U1')], question: 'did you pair with <@U2> today?' },
+    { name: 'and inside the question', text: '<@UBOT> <@U1> and what about the release?', targets: [user('U1')], question: 'and what about the release?' },
+    { name: 'whitespace collapsed', text: '<@UBOT>   <@U1>\n  what   now?  ', targets: [user('U1')], question: 'what now?' },
+
+    // Errors
+    { name: 'no bot mention', text: '<@U1> what is new?', error: 'missing_bot_mention' },
+    { name: 'only the bot', text: '<@UBOT>', error: 'empty' },
+    { name: 'only whitespace after the bot', text: '<@UBOT>    ', error: 'empty' },
+    { name: 'no target', text: '<@UBOT> what is everyone doing?', error: 'missing_target' },
+    { name: 'empty question', text: '<@UBOT> ask <@U1>', error: 'missing_question' },
+    { name: 'empty question after separator', text: '<@UBOT> <@U1> and <@U2>:', error: 'missing_question' },
+  ];
+
+  it.each(cases)('$name', (testCase) => {
+    const result = parseMessage(testCase.text, BOT);
+    if ('error' in testCase) {
+      expect(result).toMatchObject({ ok: false, error: { code: testCase.error } });
+    } else {
+      expect(result).toEqual({ ok: true, targets: testCase.targets, question: testCase.question });
+    }
+  });
+
+  it('treats a leading mention as the bot when its ID is unknown', () => {
+    expect(parseMessage('<@UBOT> <@U1> hi?', null)).toEqual({ ok: true, targets: [user('U1')], question: 'hi?' });
+  });
+
+  it('keeps the text after the bot as the remainder when no one is mentioned', () => {
+    expect(parseMessage('<@UBOT> and   tomorrow?', BOT)).toEqual({
+      ok: false,
+      error: expect.objectContaining({ code: 'missing_target', remainder: 'and tomorrow?' }),
+    });
+  });
+});
+
+// `/doppel ask` text, which has no bot mention and is answered privately
+describe('parseQuestion', () => {
+  const cases: Case[] = [
+    { name: 'ask privately', text: '<@U1> what is she working on?', targets: [user('U1')], question: 'what is she working on?' },
+    { name: 'ask keyword', text: 'ask <@U1|john> any PRs?', targets: [user('U1', 'john')], question: 'any PRs?' },
+    { name: 'privately inside the question', text: '<@U1> can I ask you privately about the reorg?', targets: [user('U1')], question: 'can I ask you privately about the reorg?' },
+    { name: 'several targets', text: '<@U1> and <@U2> lunch?', targets: [user('U1'), user('U2')], question: 'lunch?' },
+    { name: 'empty', text: '   ', error: 'empty' },
+    { name: 'no target', text: 'what is new?', error: 'missing_target' },
+    { name: 'empty question', text: 'ask <@U1>\'s agent', error: 'missing_question' },
+  ];
+
+  it.each(cases)('$name', (testCase) => {
+    const result = parseQuestion(testCase.text);
+    if ('error' in testCase) {
+      expect(result).toMatchObject({ ok: false, error: { code: testCase.error } });
+    } else {
+      expect(result).toEqual({ ok: true, targets: testCase.targets, question: testCase.question });
+    }
+  });
+});
+
+describe('parseDirectMessage', () => {
+  const cases: Case[] = [
+    { name: 'leading target', text: '<@U1> what is next?', targets: [user('U1')], question: 'what is next?' },
+    { name: 'mention inside the question', text: 'what is <@U1> working on?', targets: [user('U1')], question: 'what is <@U1> working on?' },
+    { name: 'several inline mentions', text: 'are <@U1> and <!subteam^S2> blocked?', targets: [user('U1'), group('S2')], question: 'are <@U1> and <!subteam^S2> blocked?' },
+    { name: 'bot mention is dropped', text: '<@UBOT> <@U1> hi?', targets: [user('U1')], question: 'hi?' },
+    { name: 'no mention', text: 'what is new?', error: 'missing_target' },
+    { name: 'empty question', text: '<@U1>', error: 'missing_question' },
+  ];
+
+  it.each(cases)('$name', (testCase) => {
+    const result = parseDirectMessage(testCase.text, BOT);
+    if ('error' in testCase) {
+      expect(result).toMatchObject({ ok: false, error: { code: testCase.error } });
+    } else {
+      expect(result).toEqual({ ok: true, targets: testCase.targets, question: testCase.question });
+    }
+  });
+});
@@ -0,0 +1,148 @@
+// lib/slack/parse.ts
+// Parses bot mentions into targets and a question.
+//
+// Grammar (after the bot mention is removed):
+//   message  := ["ask"] targets [":" | "," | "-"] question
+//   targets  := target (("," | "&" | "and") target)*
+//   target   := "<@U…>" | "<@U…|name>" | "<!subteam^S…>" | "<!subteam^S…|@handle>", optionally followed by "'s agent"
+
+import { logger } from '@/lib/logger';
+
+export type MentionTarget =
+  | { kind: 'user'; id: string; label?: string }
+  | { kind: 'usergroup'; id: string; label?: string };
+
+export type ParseErrorCode = 'missing_bot_mention' | 'empty' | 'missing_target' | 'missing_question';
+
+export interface ParseError {
+  code: ParseErrorCode;
+  message: string;
+  // For missing_target: the text after the bot mention, usable as a follow-up question in a known thread
+  remainder?: string;
+}
+
+export type ParseResult =
+  | { ok: true; targets: MentionTarget[]; question: string }
+  | { ok: false; error: ParseError };
+
+const USER_MENTION = /^<@([UW][A-Z0-9]+)(?:\|([^>]*))?>/;
+const USERGROUP_MENTION = /^<!subteam\^([A-Z0-9]+)(?:\|([^>]*))?>/;
+const POSSESSIVE_AGENT = /^(?:['’]s)?(?:\s+agent\b)?/i;
+const TARGET_SEPARATOR = /^\s*(?:,\s*(?:and\s+)?|&\s*|and\s+)(?=<[@!])/i;
+const INLINE_MENTION = /<@([UW][A-Z0-9]+)(?:\|([^>]*))?>|<!subteam\^([A-Z0-9]+)(?:\|([^>]*))?>/g;
+const ASK_KEYWORD = /^ask\b\s*/i;
+const QUESTION_LEAD = /^\s*[:,\-–—]?\s*/;
+
+function fail(code: ParseErrorCode, message: string, remainder?: string): ParseResult {
+  logger.parse.info('Message rejected', { code });
+  return { ok: false, error: { code, message, ...(remainder && { remainder }) } };
+}
+
+// Removes the bot's own mention. Without a known bot user ID, a leading mention is assumed to be the bot.
+function stripBotMention(text: string, botUserId: string | null): string | null {
+  if (botUserId) {
+    const botMention = new RegExp(`<@${botUserId}(?:\\|[^>]*)?>`);
+    return botMention.test(text) ? text.replace(botMention, ' ') : null;
+  }
+  const leading = text.trimStart().match(USER_MENTION);
+  return leading ? text.trimStart().slice(leading[0].length) : null;
+}
+
+function readTarget(rest: string): { target: MentionTarget; length: number } | null {
+  const user = rest.match(USER_MENTION);
+  if (user) {
+    return { target: { kind: 'user', id: user[1], ...(user[2] && { label: user[2] }) }, length: user[0].length };
+  }
+  const group = rest.match(USERGROUP_MENTION);
+  if (group) {
+    return { target: { kind: 'usergroup', id: group[1], ...(group[2] && { label: group[2] }) }, length: group[0].length };
+  }
+  return null;
+}
+
+export function parseMessage(text: string, botUserId: string | null): ParseResult {
+  logger.parse.debug('Parsing message', { text, botUserId });
+
+  const withoutBot = stripBotMention(text, botUserId);
+  if (withoutBot === null) {
+    return fail('missing_bot_mention', 'The message does not mention the bot');
+  }
+
+  return parseQuestion(withoutBot);
+}
+
+// Parses "[ask] targets question" without a bot mention, e.g. the text of `/doppel ask`
+export function parseQuestion(text: string): ParseResult {
+  let rest = text.trim();
+  if (!rest) {
+    return fail('empty', 'Nothing was asked');
+  }
+
+  rest = rest.replace(ASK_KEYWORD, '');
+
+  const targets: MentionTarget[] = [];
+  for (;;) {
+    const next = readTarget(rest);
+    if (!next) break;
+    if (!targets.some((target) => target.id === next.target.id)) {
+      targets.push(next.target);
+    }
+    rest = rest.slice(next.length).replace(POSSESSIVE_AGENT, '');
+
+    const separator = rest.match(TARGET_SEPARATOR);
+    if (!separator) break;
+    rest = rest.slice(separator[0].length);
+  }
+
+  if (targets.length === 0) {
+    return fail('missing_target', 'No teammate was mentioned before the question', rest.replace(/\s+/g, ' ').trim());
+  }
+
+  const question = rest.replace(QUESTION_LEAD, '').replace(/\s+/g, ' ').trim();
+  if (!question) {
+    return fail('missing_question', 'No question followed the teammate mention');
+  }
+
+  logger.parse.info('Message parsed', { targets, question });
+  return { ok: true, targets, question };
+}
+
+// Teammates mentioned anywhere in the text, in order, without duplicates
+function readInlineTargets(text: string): MentionTarget[] {
+  const targets: MentionTarget[] = [];
+  for (const match of text.matchAll(INLINE_MENTION)) {
+    const target: MentionTarget = match[1]
+      ? { kind: 'user', id: match[1], ...(match[2] && { label: match[2] }) }
+      : { kind: 'usergroup', id: match[3], ...(match[4] && { label: match[4] }) };
+    if (!targets.some((existing) => existing.id === target.id)) {
+      targets.push(target);
+    }
+  }
+  return targets;
+}
+
+// Whether the text mentions a teammate or user group anywhere, e.g. a missing_target remainder
+export function namesTeammate(text: string): boolean {
+  return readInlineTargets(text).length > 0;
+}
+
+// DMs to the bot need no bot mention and read naturally: "what is @sarah working on?".
+// The leading-target grammar is tried first; otherwise any mention in the text is a target.
+export function parseDirectMessage(text: string, botUserId: string | null): ParseResult {
+  logger.parse.debug('Parsing direct message', { text, botUserId });
+
+  const withoutBot = botUserId ? stripBotMention(text, botUserId) ?? text : text;
+  const leading = parseQuestion(withoutBot);
+  if (leading.ok || leading.error.code !== 'missing_target') {
+    return leading;
+  }
+
+  const targets = readInlineTargets(withoutBot);
+  if (targets.length === 0) {
+    return leading;
+  }
+
+  const question = withoutBot.replace(/\s+/g, ' ').trim();
+  logger.parse.info('Direct message parsed', { targets, question });
+  return { ok: true, targets, question };
+}
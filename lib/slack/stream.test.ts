@@ -0,0 +1,104 @@
+import { ErrorCode } from '@slack/web-api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMessageStreamer, createUpdateBudget } from './stream';
+
+const slack = vi.hoisted(() => ({ chat: { update: vi.fn() } }));
+
+vi.mock('./client', () => ({ slack }));
+
+const INTERVAL_MS = 1500;
+
+// The text of each chat.update, in order
+const sentTexts = () => slack.chat.update.mock.calls.map(([args]) => args.text);
+
+describe('message streamer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    slack.chat.update.mockResolvedValue({ ok: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.resetAllMocks();
+  });
+
+  it('sends only the latest text pushed within an interval', async () => {
+    const streamer = createMessageStreamer('C1', '1.1', 'Jane', { budget: createUpdateBudget(60, 10) });
+
+    streamer.push('The');
+    streamer.push('The importer');
+    await vi.advanceTimersByTimeAsync(0);
+    streamer.push('The importer is');
+    streamer.push('The importer is done');
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS - 1);
+    expect(sentTexts()).toEqual(['The importer']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sentTexts()).toEqual(['The importer', 'The importer is done']);
+    expect(streamer.started).toBe(true);
+  });
+
+  it('skips blank text and text already sent', async () => {
+    const streamer = createMessageStreamer('C1', '1.1', 'Jane', { budget: createUpdateBudget(60, 10) });
+
+    streamer.push('  ');
+    streamer.push('Done');
+    await vi.advanceTimersByTimeAsync(0);
+    streamer.push('Done');
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS * 2);
+
+    expect(sentTexts()).toEqual(['Done']);
+  });
+
+  it('waits in close() for the update in flight and sends nothing afterwards', async () => {
+    let finishUpdate = () => {};
+    slack.chat.update.mockReturnValueOnce(new Promise((resolve) => {
+      finishUpdate = () => resolve({ ok: true });
+    }));
+    const streamer = createMessageStreamer('C1', '1.1', 'Jane', { budget: createUpdateBudget(60, 10) });
+    streamer.push('Partial');
+    await vi.advanceTimersByTimeAsync(0);
+    streamer.push('Partial answer');
+
+    let closed = false;
+    const closing = streamer.close().then(() => {
+      closed = true;
+    });
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS * 2);
+    expect(closed).toBe(false);
+
+    finishUpdate();
+    await closing;
+    expect(sentTexts()).toEqual(['Partial']);
+  });
+
+  it('shares one budget between every streamer', async () => {
+    const budget = createUpdateBudget(60, 2);
+    const streamers = [1, 2, 3].map((index) => createMessageStreamer('C1', `${index}.1`, 'Jane', { budget }));
+
+    streamers.forEach((streamer, index) => streamer.push(`Answer ${index + 1}`));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sentTexts()).toEqual(['Answer 1', 'Answer 2']);
+
+    // One update a second comes back to the budget
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sentTexts()).toEqual(['Answer 1', 'Answer 2', 'Answer 3']);
+  });
+
+  it('holds every streamer back after Slack rate limits an update', async () => {
+    const budget = createUpdateBudget(600, 10);
+    slack.chat.update.mockRejectedValueOnce(Object.assign(new Error('rate limited'), { code: ErrorCode.RateLimitedError, retryAfter: 5 }));
+    const first = createMessageStreamer('C1', '1.1', 'Jane', { budget });
+    const second = createMessageStreamer('C1', '2.1', 'Sam', { budget });
+
+    first.push('One');
+    await vi.advanceTimersByTimeAsync(0);
+    second.push('Two');
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(sentTexts()).toEqual(['One']);
+    expect(first.started).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sentTexts()).toEqual(['One', 'Two']);
+  });
+});
@@ -0,0 +1,144 @@
+// lib/slack/stream.ts
+// Streams a growing answer into an existing Slack message with throttled chat.update calls
+
+import { ErrorCode } from '@slack/web-api';
+import { logger } from '@/lib/logger';
+import { truncateSection, type SlackBlock } from './blocks';
+import { slack } from './client';
+
+// At most one edit per message this often; anything pushed in between is coalesced
+const UPDATE_INTERVAL_MS = 1500;
+// chat.update is Tier 3: about 50 calls per minute per workspace, shared by every answer
+// streaming at once. Partial updates get part of that, leaving room for the final ones.
+const PARTIAL_UPDATES_PER_MINUTE = 30;
+const PARTIAL_UPDATE_BURST = 5;
+const CURSOR = ' ▍';
+
+export interface MessageStreamer {
+  // Show `text` as the answer so far; only the latest text is sent at each interval
+  push(text: string): void;
+  // Whether any partial text has been shown, so a failure has something to replace
+  readonly started: boolean;
+  // Stop sending updates and wait for the one in flight, so the caller's final update lands last
+  close(): Promise<void>;
+}
+
+// Token bucket shared by every streamer in the process
+export interface UpdateBudget {
+  // Spend one update if one is available now; otherwise the time to try again
+  take(now?: number): number | null;
+  // Hold every update until `time`, e.g. after Slack answered `ratelimited`
+  pauseUntil(time: number): void;
+}
+
+export function createUpdateBudget(perMinute: number, burst: number): UpdateBudget {
+  const msPerUpdate = 60 * 1000 / perMinute;
+  let tokens = burst;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+
+  return {
+    take(now = Date.now()) {
+      if (now < pausedUntil) return pausedUntil;
+      tokens = Math.min(burst, tokens + (now - refilledAt) / msPerUpdate);
+      refilledAt = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return null;
+      }
+      return now + Math.ceil((1 - tokens) * msPerUpdate);
+    },
+    pauseUntil(time) {
+      pausedUntil = Math.max(pausedUntil, time);
+    },
+  };
+}
+
+const sharedBudget = createUpdateBudget(PARTIAL_UPDATES_PER_MINUTE, PARTIAL_UPDATE_BURST);
+
+// Seconds Slack asked us to wait, if the error is a rate limit
+function rateLimitDelay(error: unknown): number | null {
+  const coded = error as { code?: string; retryAfter?: number; data?: { error?: string } };
+  if (coded.code === ErrorCode.RateLimitedError) return coded.retryAfter ?? 1;
+  if (coded.code === ErrorCode.PlatformError && coded.data?.error === 'ratelimited') return 1;
+  return null;
+}
+
+export function streamingBlocks(displayName: string, text: string): SlackBlock[] {
+  return [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `🤖 *${displayName}'s Agent:*\n\n${truncateSection(text)}${CURSOR}` }
+    }
+  ];
+}
+
+export function createMessageStreamer(
+  channel: string,
+  ts: string,
+  displayName: string,
+  options: { intervalMs?: number; budget?: UpdateBudget } = {}
+): MessageStreamer {
+  const { intervalMs = UPDATE_INTERVAL_MS, budget = sharedBudget } = options;
+  let latest = '';
+  let sent = '';
+  let started = false;
+  let closed = false;
+  let lastSentAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const schedule = (delayMs: number) => {
+    timer = setTimeout(send, Math.max(0, delayMs));
+  };
+
+  const send = () => {
+    timer = null;
+    if (closed || latest === sent) return;
+    // Out of budget: wait for it, still sending only the newest text
+    const retryAt = budget.take();
+    if (retryAt !== null) {
+      schedule(retryAt - Date.now());
+      return;
+    }
+    const text = latest;
+    sent = text;
+    lastSentAt = Date.now();
+    inFlight = inFlight
+      .then(async () => {
+        await slack.chat.update({ channel, ts, text, blocks: streamingBlocks(displayName, text) });
+        started = true;
+      })
+      .catch((error) => {
+        const delaySeconds = rateLimitDelay(error);
+        if (delaySeconds !== null) {
+          budget.pauseUntil(Date.now() + delaySeconds * 1000);
+        }
+        // A dropped partial update is harmless; the final update replaces it
+        logger.slack.warn('Failed to stream partial answer', {
+          channel,
+          ts,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  };
+
+  return {
+    push(text) {
+      if (closed || !text.trim()) return;
+      latest = text;
+      if (!timer) {
+        schedule(lastSentAt + intervalMs - Date.now());
+      }
+    },
+    get started() {
+      return started;
+    },
+    async close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      await inFlight;
+    },
+  };
+}
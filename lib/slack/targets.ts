@@ -0,0 +1,32 @@
+// lib/slack/targets.ts
+// Resolves parsed mention targets to individual Slack user IDs
+
+import { logger } from '@/lib/logger';
+import { slack } from './client';
+import type { MentionTarget } from './parse';
+
+// Upper bound on agents asked for a single question, so a large group can't fan out unbounded
+export const MAX_TARGETS = 8;
+
+export async function resolveTargetUserIds(targets: MentionTarget[]): Promise<string[]> {
+  const userIds: string[] = [];
+
+  for (const target of targets) {
+    if (target.kind === 'user') {
+      userIds.push(target.id);
+      continue;
+    }
+    try {
+      const result = await slack.usergroups.users.list({ usergroup: target.id });
+      userIds.push(...(result.users ?? []));
+    } catch (error) {
+      logger.mention.error('Failed to expand user group', error as Error, { usergroup: target.id });
+    }
+  }
+
+  const unique = Array.from(new Set(userIds));
+  if (unique.length > MAX_TARGETS) {
+    logger.mention.warn('Too many targets, truncating', { requested: unique.length, max: MAX_TARGETS });
+  }
+  return unique.slice(0, MAX_TARGETS);
+}
@@ -0,0 +1,70 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { verifySlackRequest, type SlackVerificationFailure } from './verify';
+
+const SECRET = 'signing-secret';
+const NOW = 1_700_000_000_000;
+const BODY = 'token=x&command=%2Fdoppel&text=ask';
+
+const sign = (timestamp: string, body = BODY, secret = SECRET) =>
+  'v0=' + createHmac('sha256', secret).update(`v0:${timestamp}:${body}`).digest('hex');
+
+const headers = (signature: string | null, timestamp: string | null) => {
+  const result = new Headers();
+  if (signature !== null) result.set('x-slack-signature', signature);
+  if (timestamp !== null) result.set('x-slack-request-timestamp', timestamp);
+  return result;
+};
+
+const seconds = (offset: number) => String(NOW / 1000 + offset);
+
+interface Case {
+  name: string;
+  signature: string | null;
+  timestamp: string | null;
+  body?: string;
+  secret?: string;
+  reason: SlackVerificationFailure | null;
+}
+
+describe('verifySlackRequest', () => {
+  const cases: Case[] = [
+    { name: 'valid signature', signature: sign(seconds(0)), timestamp: seconds(0), reason: null },
+    { name: 'just inside the replay window', signature: sign(seconds(-300)), timestamp: seconds(-300), reason: null },
+    { name: 'clock slightly ahead', signature: sign(seconds(60)), timestamp: seconds(60), reason: null },
+
+    // HMAC check
+    { name: 'signed with another secret', signature: sign(seconds(0), BODY, 'other'), timestamp: seconds(0), reason: 'invalid_signature' },
+    { name: 'body changed after signing', signature: sign(seconds(0)), timestamp: seconds(0), body: `${BODY}&x=1`, reason: 'invalid_signature' },
+    { name: 'timestamp changed after signing', signature: sign(seconds(-1)), timestamp: seconds(0), reason: 'invalid_signature' },
+    { name: 'wrong version prefix', signature: sign(seconds(0)).replace('v0=', 'v1='), timestamp: seconds(0), reason: 'invalid_signature' },
+
+    // Length mismatch is rejected before the constant-time compare, which would throw
+    { name: 'truncated signature', signature: sign(seconds(0)).slice(0, -1), timestamp: seconds(0), reason: 'invalid_signature' },
+    { name: 'signature with extra characters', signature: `${sign(seconds(0))}00`, timestamp: seconds(0), reason: 'invalid_signature' },
+    { name: 'empty hash', signature: 'v0=', timestamp: seconds(0), reason: 'invalid_signature' },
+
+    // Replay window
+    { name: 'older than 5 minutes', signature: sign(seconds(-301)), timestamp: seconds(-301), reason: 'stale_timestamp' },
+    { name: 'more than 5 minutes ahead', signature: sign(seconds(301)), timestamp: seconds(301), reason: 'stale_timestamp' },
+
+    // Missing or malformed headers
+    { name: 'no signature header', signature: null, timestamp: seconds(0), reason: 'missing_headers' },
+    { name: 'no timestamp header', signature: sign(seconds(0)), timestamp: null, reason: 'missing_headers' },
+    { name: 'empty signature header', signature: '', timestamp: seconds(0), reason: 'missing_headers' },
+    { name: 'non-numeric timestamp', signature: sign('soon'), timestamp: 'soon', reason: 'stale_timestamp' },
+
+    // Configuration
+    { name: 'no signing secret', signature: sign(seconds(0)), timestamp: seconds(0), secret: '', reason: 'missing_secret' },
+  ];
+
+  it.each(cases)('$name', (testCase) => {
+    const result = verifySlackRequest(
+      headers(testCase.signature, testCase.timestamp),
+      testCase.body ?? BODY,
+      testCase.secret ?? SECRET,
+      NOW
+    );
+    expect(result).toEqual(testCase.reason === null ? { ok: true } : { ok: false, reason: testCase.reason });
+  });
+});
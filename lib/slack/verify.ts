@@ -0,0 +1,52 @@
+// lib/slack/verify.ts
+// Slack request signature verification
+// See https://api.slack.com/authentication/verifying-requests-from-slack
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Slack recommends rejecting anything older than 5 minutes to prevent replays
+const MAX_REQUEST_AGE_SECONDS = 60 * 5;
+
+export type SlackVerificationFailure =
+  | 'missing_secret'
+  | 'missing_headers'
+  | 'stale_timestamp'
+  | 'invalid_signature';
+
+export type SlackVerificationResult =
+  | { ok: true }
+  | { ok: false; reason: SlackVerificationFailure };
+
+export function verifySlackRequest(
+  headers: Headers,
+  rawBody: string,
+  signingSecret: string | undefined = process.env.SLACK_SIGNING_SECRET,
+  now: number = Date.now()
+): SlackVerificationResult {
+  if (!signingSecret) {
+    return { ok: false, reason: 'missing_secret' };
+  }
+
+  const signature = headers.get('x-slack-signature');
+  const timestamp = headers.get('x-slack-request-timestamp');
+  if (!signature || !timestamp) {
+    return { ok: false, reason: 'missing_headers' };
+  }
+
+  const requestTime = Number(timestamp);
+  if (!Number.isFinite(requestTime) || Math.abs(now / 1000 - requestTime) > MAX_REQUEST_AGE_SECONDS) {
+    return { ok: false, reason: 'stale_timestamp' };
+  }
+
+  const expected = 'v0=' + createHmac('sha256', signingSecret)
+    .update(`v0:${timestamp}:${rawBody}`)
+    .digest('hex');
+
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  if (expectedBuffer.length !== signatureBuffer.length || !timingSafeEqual(expectedBuffer, signatureBuffer)) {
+    return { ok: false, reason: 'invalid_signature' };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { storeBackend } from './json-file';
+
+describe('storeBackend', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('defaults to files', () => {
+    vi.stubEnv('TEST_STORE', '');
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+    expect(storeBackend('TEST_STORE')).toBe('file');
+  });
+
+  it('defaults to Redis when its REST credentials are set', () => {
+    vi.stubEnv('TEST_STORE', '');
+    vi.stubEnv('KV_REST_API_URL', 'https://kv.test');
+    vi.stubEnv('KV_REST_API_TOKEN', 'secret');
+    expect(storeBackend('TEST_STORE')).toBe('redis');
+  });
+
+  it('refuses Redis without its REST credentials', () => {
+    vi.stubEnv('TEST_STORE', 'redis');
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+    expect(() => storeBackend('TEST_STORE')).toThrow(/TEST_STORE=redis needs KV_REST_API_URL/);
+  });
+
+  it('uses the store variable when it names a backend', () => {
+    vi.stubEnv('TEST_STORE', 'memory');
+    expect(storeBackend('TEST_STORE', { durable: true })).toBe('memory');
+  });
+
+  describe('on a serverless host', () => {
+    it('refuses memory for a durable store', () => {
+      vi.stubEnv('VERCEL', '1');
+      vi.stubEnv('DOPPEL_DATA_DIR', '/mnt/doppel');
+      vi.stubEnv('TEST_STORE', 'memory');
+      expect(() => storeBackend('TEST_STORE', { durable: true })).toThrow(/TEST_STORE=memory/);
+    });
+
+    it('refuses files outside an explicit data directory for a durable store', () => {
+      vi.stubEnv('VERCEL', '1');
+      vi.stubEnv('DOPPEL_DATA_DIR', '');
+      vi.stubEnv('TEST_STORE', '');
+      vi.stubEnv('KV_REST_API_URL', '');
+      vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+      expect(() => storeBackend('TEST_STORE', { durable: true })).toThrow(/DOPPEL_DATA_DIR/);
+    });
+
+    it('accepts Redis for a durable store', () => {
+      vi.stubEnv('VERCEL', '1');
+      vi.stubEnv('DOPPEL_DATA_DIR', '');
+      vi.stubEnv('TEST_STORE', '');
+      vi.stubEnv('KV_REST_API_URL', 'https://kv.test');
+      vi.stubEnv('KV_REST_API_TOKEN', 'secret');
+      expect(storeBackend('TEST_STORE', { durable: true })).toBe('redis');
+    });
+
+    it('accepts files in an explicit data directory', () => {
+      vi.stubEnv('VERCEL', '1');
+      vi.stubEnv('DOPPEL_DATA_DIR', '/mnt/doppel');
+      vi.stubEnv('TEST_STORE', '');
+      expect(storeBackend('TEST_STORE', { durable: true })).toBe('file');
+    });
+
+    it('keeps memory for a store that only lives as long as the instance', () => {
+      vi.stubEnv('VERCEL', '1');
+      vi.stubEnv('TEST_STORE', 'memory');
+      expect(storeBackend('TEST_STORE')).toBe('memory');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+// lib/storage/json-file.ts
+// Minimal JSON document on disk for local and self-hosted deployments.
+// Writes are serialized within the process and land atomically via rename. Updates from separate
+// processes can still overwrite each other, so data that several instances claim at once
+// (Slack event dedup) doesn't use this.
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isRedisConfigured } from './redis';
+
+export interface JsonFile<T> {
+  read(): Promise<T>;
+  update<R>(mutate: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+// Directory for all file-backed stores, overridable for self-hosted setups
+export function getDataDir(): string {
+  return process.env.DOPPEL_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+export type StoreBackend = 'memory' | 'file' | 'redis';
+
+const BACKENDS: StoreBackend[] = ['memory', 'file', 'redis'];
+
+export interface StoreBackendOptions {
+  // The store must outlive a single instance: a cron, a later request or another instance reads it
+  durable?: boolean;
+}
+
+// Serverless hosts recycle instances and give each one its own read-only filesystem
+function isServerless(): boolean {
+  return Boolean(process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME);
+}
+
+// Which backend a store uses: its own variable (memory|file|redis) wins, then Redis when its REST
+// credentials are set, then JSON files in getDataDir().
+// On serverless hosts a durable store is refused rather than silently losing data: memory
+// disappears with the instance, and files need DOPPEL_DATA_DIR pointing at shared, writable storage.
+export function storeBackend(variable: string, options: StoreBackendOptions = {}): StoreBackend {
+  const value = process.env[variable] as StoreBackend | undefined;
+  const backend: StoreBackend = value && BACKENDS.includes(value) ? value : isRedisConfigured() ? 'redis' : 'file';
+
+  if (backend === 'redis' && !isRedisConfigured()) {
+    throw new Error(`${variable}=redis needs KV_REST_API_URL and KV_REST_API_TOKEN (or the UPSTASH_REDIS_REST_* pair)`);
+  }
+  if (options.durable && isServerless()) {
+    if (backend === 'memory') {
+      throw new Error(`${variable}=memory loses data whenever a serverless instance recycles; connect a Redis database instead`);
+    }
+    if (backend === 'file' && !process.env.DOPPEL_DATA_DIR) {
+      throw new Error(`${variable} has no shared storage on a serverless host: connect a Redis database (KV_REST_API_URL and KV_REST_API_TOKEN) or set DOPPEL_DATA_DIR to a shared volume`);
+    }
+  }
+  return backend;
+}
+
+export function createJsonFile<T>(filePath: string, initial: () => T): JsonFile<T> {
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return initial();
+      }
+      throw error;
+    }
+  };
+
+  const write = async (data: T): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Unique per write: pids repeat across containers that share the directory
+    const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tmpPath, filePath);
+  };
+
+  const update = <R>(mutate: (data: T) => R | Promise<R>): Promise<R> => {
+    const run = pending.then(async () => {
+      const data = await read();
+      const result = await mutate(data);
+      await write(data);
+      return result;
+    });
+    // Keep the chain alive even if this update fails
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  return { read, update };
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { COMPARE_AND_SET_SCRIPT, createRedisJsonDocument, createRestRedisClient, type RedisClient } from './redis';
+
+// Just enough of Redis for JSON documents: hashes, and the compare-and-set script run in JS
+function createFakeRedis(): RedisClient & { hashes: Map<string, Record<string, string>> } {
+  const hashes = new Map<string, Record<string, string>>();
+  return {
+    hashes,
+    async command([name, ...args]) {
+      if (name === 'HMGET') {
+        const [key, ...fields] = args.map(String);
+        return fields.map((field) => hashes.get(key)?.[field] ?? null);
+      }
+      if (name === 'EVAL' && args[0] === COMPARE_AND_SET_SCRIPT) {
+        const [, , key, expected, doc, version] = args.map(String);
+        if ((hashes.get(key)?.version ?? '') !== expected) return 0;
+        hashes.set(key, { doc, version });
+        return 1;
+      }
+      throw new Error(`Unsupported command ${name}`);
+    },
+  };
+}
+
+describe('Redis JSON document', () => {
+  it('starts from the initial value and reads back what was written', async () => {
+    const redis = createFakeRedis();
+    const document = createRedisJsonDocument<string[]>('list', () => [], () => redis);
+
+    expect(await document.read()).toEqual([]);
+    expect(await document.update((items) => items.push('a'))).toBe(1);
+    expect(await document.read()).toEqual(['a']);
+    expect(redis.hashes.has('doppel:list')).toBe(true);
+  });
+
+  it('keeps every update when instances write the same document at once', async () => {
+    const redis = createFakeRedis();
+    // Separate documents stand in for separate instances: nothing is shared but Redis
+    const documents = Array.from({ length: 5 }, () => createRedisJsonDocument<number[]>('counts', () => [], () => redis));
+
+    await Promise.all(documents.map((document, index) => document.update((counts) => {
+      counts.push(index);
+    })));
+
+    expect((await documents[0].read()).sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+describe('Redis REST client', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the command with the token and returns its result', async () => {
+    vi.stubEnv('KV_REST_API_URL', 'https://kv.test');
+    vi.stubEnv('KV_REST_API_TOKEN', 'secret');
+    const fetch = vi.fn().mockResolvedValue(Response.json({ result: 'OK' }));
+    vi.stubGlobal('fetch', fetch);
+
+    expect(await createRestRedisClient().command(['SET', 'key', 1])).toBe('OK');
+    expect(fetch).toHaveBeenCalledWith('https://kv.test', expect.objectContaining({
+      body: '["SET","key","1"]',
+      headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+    }));
+  });
+
+  it('throws the error Redis reports', async () => {
+    vi.stubEnv('KV_REST_API_URL', 'https://kv.test');
+    vi.stubEnv('KV_REST_API_TOKEN', 'secret');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(Response.json({ error: 'WRONGTYPE' }, { status: 400 })));
+
+    await expect(createRestRedisClient().command(['GET', 'key'])).rejects.toThrow('Redis GET failed: WRONGTYPE');
+  });
+
+  it('needs the REST credentials', () => {
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+    expect(() => createRestRedisClient()).toThrow(/KV_REST_API_URL/);
+  });
+});
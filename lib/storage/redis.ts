@@ -0,0 +1,115 @@
+// lib/storage/redis.ts
+// Redis over its REST API (Upstash, or Vercel KV which is Upstash underneath), for serverless
+// deployments where instances share no filesystem. Plain fetch, so no client library or open
+// connection has to survive between invocations.
+
+import { randomUUID } from 'crypto';
+import type { JsonFile } from './json-file';
+
+// Every key this app writes starts with this, so the database can be shared with other apps
+export const KEY_PREFIX = 'doppel:';
+
+// Attempts at an update before giving up, when other instances keep changing the document
+const MAX_UPDATE_ATTEMPTS = 10;
+
+export interface RedisClient {
+  // Runs one command, e.g. ['SET', 'key', 'value'], and returns its result
+  command(args: (string | number)[]): Promise<unknown>;
+}
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+function restConfig(): { url: string; token: string } | null {
+  const url = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+  return url && token ? { url, token } : null;
+}
+
+export function isRedisConfigured(): boolean {
+  return restConfig() !== null;
+}
+
+export function createRestRedisClient(): RedisClient {
+  const config = restConfig();
+  if (!config) {
+    throw new RedisError('Redis needs KV_REST_API_URL and KV_REST_API_TOKEN (or the UPSTASH_REDIS_REST_* pair)');
+  }
+
+  return {
+    async command(args) {
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${config.token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(args.map(String)),
+      });
+      const body = await response.json().catch(() => null) as { result?: unknown; error?: string } | null;
+      if (!response.ok || !body || body.error) {
+        throw new RedisError(`Redis ${args[0]} failed: ${body?.error ?? response.status}`);
+      }
+      return body.result ?? null;
+    },
+  };
+}
+
+let client: RedisClient | null = null;
+
+export function getRedisClient(): RedisClient {
+  if (!client) {
+    client = createRestRedisClient();
+  }
+  return client;
+}
+
+export function setRedisClient(next: RedisClient | null): void {
+  client = next;
+}
+
+// Replaces the document only if nobody else wrote it since it was read
+// KEYS[1] = hash holding `doc` and `version`; ARGV = expected version ('' if new), document, new version
+export const COMPARE_AND_SET_SCRIPT = `
+if (redis.call('HGET', KEYS[1], 'version') or '') ~= ARGV[1] then return 0 end
+redis.call('HSET', KEYS[1], 'doc', ARGV[2], 'version', ARGV[3])
+return 1`;
+
+// JSON document in one Redis hash, the shared counterpart of createJsonFile. Updates are
+// optimistic: read, mutate, and write back only if the version is unchanged, else start over.
+// Unlike the file backend this holds across instances, so `mutate` must be safe to run again.
+export function createRedisJsonDocument<T>(
+  key: string,
+  initial: () => T,
+  redis: () => RedisClient = getRedisClient
+): JsonFile<T> {
+  const fullKey = `${KEY_PREFIX}${key}`;
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<{ data: T; version: string }> => {
+    const [doc, version] = await redis().command(['HMGET', fullKey, 'doc', 'version']) as (string | null)[];
+    return { data: doc ? JSON.parse(doc) as T : initial(), version: version ?? '' };
+  };
+
+  const read = async (): Promise<T> => (await load()).data;
+
+  const update = <R>(mutate: (data: T) => R | Promise<R>): Promise<R> => {
+    const run = pending.then(async () => {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const { data, version } = await load();
+        const result = await mutate(data);
+        const written = await redis().command([
+          'EVAL', COMPARE_AND_SET_SCRIPT, 1, fullKey, version, JSON.stringify(data), randomUUID(),
+        ]);
+        if (Number(written) === 1) return result;
+      }
+      throw new RedisError(`Gave up updating ${fullKey} after ${MAX_UPDATE_ATTEMPTS} conflicting writes`);
+    });
+    // Keep the chain alive even if this update fails
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  return { read, update };
+}
@@ -0,0 +1,12 @@
+// lib/text/terms.ts
+// Finding a configured term (escalation keyword, blocked term) as a whole word in free text
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive match of `term` not touching other word characters. Lookarounds rather
+// than \b, which never matches next to punctuation, so "C++", ".NET" and "#incident" still match.
+export function termPattern(term: string, flags = 'i'): RegExp {
+  return new RegExp(`(?<!\\w)${escapeRegExp(term.trim())}(?!\\w)`, flags);
+}